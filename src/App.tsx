@@ -1,26 +1,33 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { ThemeProvider } from 'next-themes'
 import { AuthProvider } from './contexts/AuthContext'
+import { WorkspaceProvider } from './contexts/WorkspaceContext'
 import Landing from './pages/Landing'
 import Dashboard from './pages/Dashboard'
 import Interview from './pages/Interview'
 import Analytics from './pages/Analytics'
+import InterviewTranscript from './pages/InterviewTranscript'
+import ProjectDetail from './pages/ProjectDetail'
 import './App.css'
 
 function App() {
   return (
     <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
       <AuthProvider>
-        <Router>
-          <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
-            <Routes>
-              <Route path="/" element={<Landing />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/interview/:id" element={<Interview />} />
-              <Route path="/analytics" element={<Analytics />} />
-            </Routes>
-          </div>
-        </Router>
+        <WorkspaceProvider>
+          <Router>
+            <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
+              <Routes>
+                <Route path="/" element={<Landing />} />
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/interview/:id" element={<Interview />} />
+                <Route path="/analytics" element={<Analytics />} />
+                <Route path="/projects/:projectId" element={<ProjectDetail />} />
+                <Route path="/projects/:projectId/interviews/:interviewId" element={<InterviewTranscript />} />
+              </Routes>
+            </div>
+          </Router>
+        </WorkspaceProvider>
       </AuthProvider>
     </ThemeProvider>
   )
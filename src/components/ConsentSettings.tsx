@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { ExternalLink, Loader2, Plus, Save, ShieldCheck, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import type { Json, Tables } from '@/lib/database.types'
+import {
+  DEFAULT_CONSENT_NOTICE,
+  getConsentCheckboxes,
+  isValidPrivacyPolicyUrl,
+  type ConsentNotice,
+} from '@shared/consent'
+
+interface ConsentSettingsProps {
+  projectId: string;
+  currentConsentVersionId: string | null;
+  canEdit: boolean;
+  onChanged: (consentVersionId: string | null) => void;
+}
+
+type ConsentVersion = Pick<Tables<'consent_versions'>, 'id' | 'version' | 'created_at'> & {
+  notice: ConsentNotice;
+}
+
+export default function ConsentSettings({ projectId, currentConsentVersionId, canEdit, onChanged }: ConsentSettingsProps) {
+  // The newest version, which is also the starting point when consent is switched back on
+  const [latest, setLatest] = useState<ConsentVersion | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState<ConsentNotice>(DEFAULT_CONSENT_NOTICE)
+  const [saving, setSaving] = useState(false)
+  const [disabling, setDisabling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLatest = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from('consent_versions')
+      .select('id, version, notice, created_at')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (fetchError) console.error('Error fetching consent notice:', fetchError)
+    setLatest(data as unknown as ConsentVersion | null)
+    setLoading(false)
+  }, [projectId])
+
+  useEffect(() => {
+    fetchLatest()
+  }, [fetchLatest])
+
+  const enabled = currentConsentVersionId !== null
+  const current = enabled && latest?.id === currentConsentVersionId ? latest : null
+
+  const openEditor = () => {
+    setDraft(latest?.notice ?? DEFAULT_CONSENT_NOTICE)
+    setError(null)
+    setEditing(true)
+  }
+
+  const handleToggle = async (checked: boolean) => {
+    if (checked) {
+      openEditor()
+      return
+    }
+    if (!confirm('Turn off the consent step? New respondents will start without accepting a privacy notice.')) return
+    setDisabling(true)
+    const { error: updateError } = await supabase.from('projects').update({ current_consent_version_id: null }).eq('id', projectId)
+    setDisabling(false)
+    if (updateError) {
+      console.error('Consent disable error:', updateError)
+      alert(`Failed to turn off consent: ${updateError.message}`)
+      return
+    }
+    onChanged(null)
+  }
+
+  const updateCheckbox = (id: string, label: string) => {
+    setDraft(prev => ({ ...prev, checkboxes: prev.checkboxes.map(c => c.id === id ? { ...c, label } : c) }))
+  }
+
+  const handleSave = async () => {
+    const notice: ConsentNotice = {
+      text: draft.text.trim(),
+      privacyPolicyUrl: draft.privacyPolicyUrl?.trim() || null,
+      checkboxes: draft.checkboxes.map(c => ({ ...c, label: c.label.trim() })),
+    }
+    if (!notice.text) {
+      setError('The notice needs some text.')
+      return
+    }
+    if (notice.checkboxes.length === 0 || notice.checkboxes.some(c => !c.label)) {
+      setError('Add at least one checkbox, and give every checkbox a label.')
+      return
+    }
+    if (notice.privacyPolicyUrl && !isValidPrivacyPolicyUrl(notice.privacyPolicyUrl)) {
+      setError('The privacy policy link must be a full http(s) URL.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      // Every save publishes a new version; interviews keep the one they accepted
+      const { data: version, error: publishError } = await supabase
+        .rpc('publish_consent_version', { target_project_id: projectId, new_notice: notice as unknown as Json })
+      if (publishError) throw publishError
+      setLatest({ ...version, notice })
+      setEditing(false)
+      onChanged(version.id)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save the consent notice.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>Consent &amp; privacy</CardTitle>
+            <CardDescription>A notice respondents must accept before the interview starts. Each interview records the version accepted.</CardDescription>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Switch id="consentRequired" checked={enabled} onCheckedChange={handleToggle} disabled={!canEdit || loading || disabling} />
+              <Label htmlFor="consentRequired" className="text-sm">Require consent</Label>
+            </div>
+            {canEdit && enabled && (
+              <Button variant="outline" size="sm" onClick={openEditor}>
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Edit Notice
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : !current ? (
+          <p className="text-slate-500 italic text-sm">No consent step. Respondents go straight from the welcome screen to the interview.</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <p className="text-slate-500">Version {current.version} · published {new Date(current.created_at).toLocaleDateString()}</p>
+            <p className="text-slate-700 whitespace-pre-wrap">{current.notice.text}</p>
+            <ul className="list-disc pl-5 text-slate-700 space-y-1">
+              {getConsentCheckboxes(current.notice).map(checkbox => <li key={checkbox.id}>{checkbox.label}</li>)}
+            </ul>
+            {isValidPrivacyPolicyUrl(current.notice.privacyPolicyUrl) && (
+              <a href={current.notice.privacyPolicyUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-blue-600 hover:underline">
+                Privacy policy
+                <ExternalLink className="w-3 h-3 ml-1" />
+              </a>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Consent notice</DialogTitle>
+            <DialogDescription>Saving publishes a new version. Respondents who haven't started yet will see it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="consentText">Notice</Label>
+              <Textarea
+                id="consentText"
+                className="min-h-[120px]"
+                value={draft.text}
+                onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="privacyPolicyUrl">Privacy policy link (optional)</Label>
+              <Input
+                id="privacyPolicyUrl"
+                type="url"
+                placeholder="https://example.com/privacy"
+                value={draft.privacyPolicyUrl ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, privacyPolicyUrl: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Required checkboxes</Label>
+              {draft.checkboxes.map(checkbox => (
+                <div key={checkbox.id} className="flex items-center gap-2">
+                  <Input value={checkbox.label} onChange={(e) => updateCheckbox(checkbox.id, e.target.value)} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft(prev => ({ ...prev, checkboxes: prev.checkboxes.filter(c => c.id !== checkbox.id) }))}
+                    aria-label="Remove checkbox"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => ({ ...prev, checkboxes: [...prev.checkboxes, { id: `c-${crypto.randomUUID().slice(0, 8)}`, label: '' }] }))}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Checkbox
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Publish Notice
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { GripVertical, Plus, Trash2, Sparkles, Loader2, Save } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import type { Json } from '@/lib/database.types'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import {
+  DEFAULT_MAX_PROBES,
+  MAX_PROBES_LIMIT,
+  GUIDE_QUESTION_TYPES,
+  getGuideQuestions,
+  type GuideQuestion,
+  type GuideQuestionType,
+  type InterviewGuide,
+} from '@shared/interviewGuide'
+
+const QUESTION_TYPE_LABELS: Record<GuideQuestionType, string> = {
+  open_ended: 'Open-ended',
+  pain_discovery: 'Pain discovery',
+  solution_probing: 'Solution probing',
+  closing: 'Closing',
+}
+
+interface GuideEditorProps {
+  projectId: string;
+  productIdeaPrompt: string;
+  guide: InterviewGuide | null | undefined;
+  onSaved: (guide: InterviewGuide, versionId: string) => void;
+  onCancel: () => void;
+}
+
+interface QuestionRowProps {
+  question: GuideQuestion;
+  index: number;
+  children: React.ReactNode;
+}
+
+// Each row is both a drag source (via its grip handle) and a drop target.
+function QuestionRow({ question, index, children }: QuestionRowProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: question.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: question.id })
+
+  return (
+    <div
+      ref={(node) => { setDragRef(node); setDropRef(node) }}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={`rounded-lg border bg-white p-4 ${isDragging ? 'relative z-10 shadow-lg opacity-90' : ''} ${isOver && !isDragging ? 'border-blue-500' : 'border-slate-200'}`}
+    >
+      <div className="flex items-start gap-3">
+        <button
+          type="button"
+          className="mt-2 cursor-grab text-slate-400 hover:text-slate-600"
+          aria-label={`Reorder question ${index + 1}`}
+          {...listeners}
+          {...attributes}
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <span className="mt-2 text-sm font-medium text-slate-500 w-6">{index + 1}.</span>
+        <div className="flex-1 space-y-3">{children}</div>
+      </div>
+    </div>
+  )
+}
+
+export default function GuideEditor({ projectId, productIdeaPrompt, guide, onSaved, onCancel }: GuideEditorProps) {
+  const [questions, setQuestions] = useState<GuideQuestion[]>(() => getGuideQuestions(guide))
+  const [saving, setSaving] = useState(false)
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const updateQuestion = (id: string, patch: Partial<GuideQuestion>) => {
+    setQuestions(prev => prev.map(q => q.id === id ? { ...q, ...patch } : q))
+  }
+
+  const addQuestion = () => {
+    setQuestions(prev => [...prev, { id: `q-${crypto.randomUUID().slice(0, 8)}`, text: '', type: 'open_ended' }])
+  }
+
+  const deleteQuestion = (id: string) => {
+    setQuestions(prev => prev.filter(q => q.id !== id))
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    setQuestions(prev => {
+      const from = prev.findIndex(q => q.id === active.id)
+      const to = prev.findIndex(q => q.id === over.id)
+      if (from === -1 || to === -1) return prev
+      const next = [...prev]
+      const [moved] = next.splice(from, 1)
+      next.splice(to, 0, moved)
+      return next
+    })
+  }
+
+  const handleRegenerate = async (questionId: string) => {
+    setRegeneratingId(questionId)
+    setError(null)
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('generate-interview-guide', {
+        body: { productIdeaPrompt, regenerate: { guide: { questions }, questionId } }
+      })
+
+      if (fnError) throw new Error(`Regeneration failed: ${(await toFunctionError(fnError)).message}`)
+      if (data.error) throw new Error(data.error)
+
+      updateQuestion(questionId, { text: data.question.text, type: data.question.type })
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate question.')
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (questions.some(q => !q.text.trim())) {
+      setError('Every question needs some text before the guide can be saved.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const updatedGuide: InterviewGuide = {
+        questions: questions.map(q => ({
+          ...q,
+          text: q.text.trim(),
+          followUpInstructions: q.followUpInstructions?.trim() || undefined,
+        })),
+      }
+      // Every save publishes a new immutable version; interviews already run
+      // keep pointing at the version they were conducted with.
+      const { data: version, error: publishError } = await supabase
+        .rpc('publish_guide_version', { target_project_id: projectId, new_guide: updatedGuide as unknown as Json })
+
+      if (publishError) throw publishError
+      onSaved(updatedGuide, version.id)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save the interview guide.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1 custom-scrollbar">
+        {questions.length === 0 && (
+          <p className="text-slate-500 italic text-sm">This guide has no questions yet. Add one to get started.</p>
+        )}
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          {questions.map((question, index) => (
+            <QuestionRow key={question.id} question={question} index={index}>
+              <Textarea
+                value={question.text}
+                placeholder="What do you want to ask?"
+                className="min-h-[60px]"
+                onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-slate-600">Question type</Label>
+                  <Select value={question.type} onValueChange={(value) => updateQuestion(question.id, { type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GUIDE_QUESTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-slate-600">Max follow-ups</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={MAX_PROBES_LIMIT}
+                    value={question.maxProbes ?? DEFAULT_MAX_PROBES}
+                    onChange={(e) => updateQuestion(question.id, { maxProbes: Math.min(MAX_PROBES_LIMIT, Math.max(0, Math.floor(Number(e.target.value)) || 0)) })}
+                  />
+                </div>
+                <div className="flex items-end justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerate(question.id)}
+                    disabled={regeneratingId !== null || !question.text.trim()}
+                  >
+                    {regeneratingId === question.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                    Regenerate
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => deleteQuestion(question.id)} aria-label="Delete question">
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-600">Follow-up probe instructions (optional)</Label>
+                <Input
+                  value={question.followUpInstructions ?? ''}
+                  placeholder="e.g. Ask for a concrete recent example and how much time it cost them"
+                  onChange={(e) => updateQuestion(question.id, { followUpInstructions: e.target.value })}
+                />
+              </div>
+            </QuestionRow>
+          ))}
+        </DndContext>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={addQuestion}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Question
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Guide
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowRight, Loader2 } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import type { Tables } from '@/lib/database.types'
+import { diffGuides, type GuideQuestionDiff, type GuideQuestionField } from '@/lib/guideDiff'
+import type { InterviewGuide } from '@shared/interviewGuide'
+
+type GuideVersion = Pick<Tables<'interview_guide_versions'>, 'id' | 'version' | 'created_at'> & {
+  guide: InterviewGuide;
+}
+
+interface GuideVersionHistoryProps {
+  projectId: string;
+  currentVersionId?: string | null;
+}
+
+const FIELD_LABELS: Record<GuideQuestionField, string> = {
+  text: 'wording',
+  type: 'type',
+  followUpInstructions: 'probe instructions',
+  maxProbes: 'max follow-ups',
+}
+
+const DIFF_STYLES: Record<GuideQuestionDiff['kind'], string> = {
+  added: 'border-green-200 bg-green-50',
+  removed: 'border-red-200 bg-red-50',
+  changed: 'border-amber-200 bg-amber-50',
+  unchanged: 'border-slate-200 bg-white',
+}
+
+function DiffEntry({ entry }: { entry: GuideQuestionDiff }) {
+  if (entry.kind === 'added') {
+    return (
+      <div className={`rounded-lg border p-3 ${DIFF_STYLES.added}`}>
+        <Badge className="bg-green-600 mb-2">Added</Badge>
+        <p className="text-sm text-slate-800">{entry.after.text}</p>
+      </div>
+    )
+  }
+  if (entry.kind === 'removed') {
+    return (
+      <div className={`rounded-lg border p-3 ${DIFF_STYLES.removed}`}>
+        <Badge variant="destructive" className="mb-2">Removed</Badge>
+        <p className="text-sm text-slate-500 line-through">{entry.before.text}</p>
+      </div>
+    )
+  }
+  return (
+    <div className={`rounded-lg border p-3 ${DIFF_STYLES[entry.kind]}`}>
+      {(entry.kind === 'changed' || entry.moved) && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {entry.changedFields.map(field => (
+            <Badge key={field} variant="outline" className="border-amber-400 text-amber-700">Changed {FIELD_LABELS[field]}</Badge>
+          ))}
+          {entry.moved && <Badge variant="outline">Moved</Badge>}
+        </div>
+      )}
+      {entry.changedFields.includes('text') ? (
+        <div className="space-y-1 text-sm">
+          <p className="text-slate-500 line-through">{entry.before.text}</p>
+          <p className="text-slate-800">{entry.after.text}</p>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-800">{entry.after.text}</p>
+      )}
+      {entry.changedFields.includes('followUpInstructions') && (
+        <p className="text-xs text-slate-600 mt-2">
+          Probe instructions: <span className="line-through">{entry.before.followUpInstructions || 'none'}</span> → {entry.after.followUpInstructions || 'none'}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default function GuideVersionHistory({ projectId, currentVersionId }: GuideVersionHistoryProps) {
+  const [versions, setVersions] = useState<GuideVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      setLoading(true)
+      setError(null)
+      const { data, error: fetchError } = await supabase
+        .from('interview_guide_versions')
+        .select('id, version, guide, created_at')
+        .eq('project_id', projectId)
+        .order('version', { ascending: false })
+
+      if (fetchError) {
+        setError(fetchError.message)
+      } else {
+        const fetched = (data as unknown as GuideVersion[] | null) || []
+        setVersions(fetched)
+        // Default to comparing the latest version against the one before it
+        setCompareId(fetched[0]?.id ?? null)
+        setBaseId(fetched[1]?.id ?? fetched[0]?.id ?? null)
+      }
+      setLoading(false)
+    }
+    fetchVersions()
+  }, [projectId])
+
+  const base = versions.find(v => v.id === baseId)
+  const compare = versions.find(v => v.id === compareId)
+  const diff = useMemo(() => base && compare ? diffGuides(base.guide, compare.guide) : [], [base, compare])
+  const changeCount = diff.filter(entry => entry.kind !== 'unchanged' || entry.moved).length
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  if (error) return <p className="text-sm text-red-600">Could not load guide versions: {error}</p>
+
+  if (versions.length === 0) {
+    return <p className="text-slate-500 italic text-sm">No saved versions yet. Saving the guide creates version 1.</p>
+  }
+
+  const versionLabel = (version: GuideVersion) =>
+    `v${version.version} · ${new Date(version.created_at).toLocaleDateString()}${version.id === currentVersionId ? ' (current)' : ''}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-3">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs text-slate-600">From</Label>
+          <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {versions.map(v => <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <ArrowRight className="hidden md:block w-4 h-4 mb-3 text-slate-400" />
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs text-slate-600">To</Label>
+          <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {versions.map(v => <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-600">
+        {baseId === compareId
+          ? 'Pick two different versions to see what changed.'
+          : `${changeCount} ${changeCount === 1 ? 'question differs' : 'questions differ'} between these versions.`}
+      </p>
+
+      <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1 custom-scrollbar">
+        {diff.map(entry => (
+          <DiffEntry key={`${entry.kind}-${entry.kind === 'removed' ? entry.before.id : entry.after.id}`} entry={entry} />
+        ))}
+      </div>
+    </div>
+  )
+}
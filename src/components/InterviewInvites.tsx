@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Ban, Copy, Loader2, Plus, Upload } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  INVITE_STATUS_COLORS,
+  INVITE_STATUS_LABELS,
+  MAX_CSV_INVITES,
+  getInviteStatus,
+  inviteInterviewCount,
+  inviteLink,
+  parseInviteCsv,
+  type InviteDraft,
+  type InviteRecord,
+} from '@/lib/interviewInvites'
+
+interface InterviewInvitesProps {
+  projectId: string;
+  inviteOnly: boolean;
+  canEdit: boolean;
+  onInviteOnlyChanged: (inviteOnly: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '14', label: 'Expires in 14 days', days: 14 },
+  { value: '30', label: 'Expires in 30 days', days: 30 },
+]
+
+const EMPTY_INVITE: { name: string; email: string; segment: string } = { name: '', email: '', segment: '' }
+
+export default function InterviewInvites({ projectId, inviteOnly, canEdit, onInviteOnlyChanged }: InterviewInvitesProps) {
+  const { user } = useAuth()
+  const [invites, setInvites] = useState<InviteRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [newInvite, setNewInvite] = useState(EMPTY_INVITE)
+  const [csvInvites, setCsvInvites] = useState<InviteDraft[]>([])
+  const [csvErrors, setCsvErrors] = useState<string[]>([])
+  const [expiry, setExpiry] = useState('never')
+  const [singleUse, setSingleUse] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [updatingInviteOnly, setUpdatingInviteOnly] = useState(false)
+
+  const fetchInvites = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('interview_invites')
+      .select('id, token, name, email, segment, expires_at, single_use, revoked_at, created_at, interviews(count)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+    if (error) console.error('Error fetching interview invites:', error)
+    setInvites(data || [])
+    setLoading(false)
+  }, [projectId])
+
+  useEffect(() => {
+    fetchInvites()
+  }, [fetchInvites])
+
+  const resetDialog = () => {
+    setNewInvite(EMPTY_INVITE)
+    setCsvInvites([])
+    setCsvErrors([])
+    setExpiry('never')
+    setSingleUse(true)
+  }
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) return
+    const { invites: parsed, errors } = parseInviteCsv(await file.text())
+    setCsvInvites(parsed)
+    setCsvErrors(errors)
+  }
+
+  const createInvites = async (drafts: InviteDraft[]) => {
+    if (!user || drafts.length === 0) return
+    const days = EXPIRY_OPTIONS.find(option => option.value === expiry)?.days
+    const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null
+    setCreating(true)
+    try {
+      const { error } = await supabase.from('interview_invites').insert(
+        drafts.map(draft => ({ ...draft, project_id: projectId, expires_at: expiresAt, single_use: singleUse, created_by: user.id }))
+      )
+      if (error) throw error
+      setDialogOpen(false)
+      resetDialog()
+      await fetchInvites()
+    } catch (error: unknown) {
+      console.error('Interview invite creation error:', error)
+      alert(`Failed to create invites: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (inviteId: string) => {
+    if (!confirm('Revoke this invite? Its link will stop working.')) return
+    const revokedAt = new Date().toISOString()
+    const { error } = await supabase.from('interview_invites').update({ revoked_at: revokedAt }).eq('id', inviteId)
+    if (error) {
+      console.error('Interview invite revoke error:', error)
+      alert(`Failed to revoke invite: ${error.message}`)
+      return
+    }
+    setInvites(prev => prev.map(invite => invite.id === inviteId ? { ...invite, revoked_at: revokedAt } : invite))
+  }
+
+  const handleInviteOnlyChange = async (checked: boolean) => {
+    setUpdatingInviteOnly(true)
+    const { error } = await supabase.from('projects').update({ invite_only: checked }).eq('id', projectId)
+    setUpdatingInviteOnly(false)
+    if (error) {
+      console.error('Invite-only update error:', error)
+      alert(`Failed to update link access: ${error.message}`)
+      return
+    }
+    onInviteOnlyChanged(checked)
+  }
+
+  const csvBlocked = csvInvites.length === 0 || csvInvites.length > MAX_CSV_INVITES
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>Invites</CardTitle>
+            <CardDescription>Personal interview links, so each response can be traced back to a respondent</CardDescription>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="inviteOnly"
+                checked={inviteOnly}
+                onCheckedChange={handleInviteOnlyChange}
+                disabled={!canEdit || updatingInviteOnly}
+              />
+              <Label htmlFor="inviteOnly" className="text-sm">Invite only</Label>
+            </div>
+            {canEdit && (
+              <Button size="sm" onClick={() => setDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Invites
+              </Button>
+            )}
+          </div>
+        </div>
+        {inviteOnly && (
+          <p className="text-sm text-slate-500">The shared project link is closed; respondents need a personal invite link to start.</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : invites.length === 0 ? (
+          <p className="text-slate-500 italic py-6 text-center">No invites yet. The shared project link works for anyone until you switch on invite only.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Respondent</TableHead>
+                <TableHead>Segment</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Interviews</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invites.map(invite => {
+                const status = getInviteStatus(invite)
+                return (
+                  <TableRow key={invite.id}>
+                    <TableCell>
+                      <p className="font-medium text-slate-900">{invite.name || invite.email}</p>
+                      {invite.name && invite.email && <p className="text-xs text-slate-500">{invite.email}</p>}
+                    </TableCell>
+                    <TableCell>{invite.segment || '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={INVITE_STATUS_COLORS[status]}>{INVITE_STATUS_LABELS[status]}</Badge>
+                      {!invite.single_use && <span className="ml-2 text-xs text-slate-500">Reusable</span>}
+                    </TableCell>
+                    <TableCell>{invite.expires_at ? new Date(invite.expires_at).toLocaleDateString() : '—'}</TableCell>
+                    <TableCell>{inviteInterviewCount(invite)}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigator.clipboard.writeText(inviteLink(projectId, invite.token))}
+                        disabled={status === 'revoked'}
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy Link
+                      </Button>
+                      {canEdit && status !== 'revoked' && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite.id)} title="Revoke invite">
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) resetDialog() }}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>New invites</DialogTitle>
+            <DialogDescription>Each invite gets its own link. Interviews started from it are attributed to the respondent.</DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="single" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="single">One respondent</TabsTrigger>
+              <TabsTrigger value="csv">Import CSV</TabsTrigger>
+            </TabsList>
+            <div className="grid grid-cols-2 gap-4">
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Switch id="singleUse" checked={singleUse} onCheckedChange={setSingleUse} />
+                <Label htmlFor="singleUse">Single use</Label>
+              </div>
+            </div>
+            <TabsContent value="single" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="inviteName">Name</Label>
+                  <Input id="inviteName" value={newInvite.name} onChange={e => setNewInvite(prev => ({ ...prev, name: e.target.value }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="inviteEmail">Email</Label>
+                  <Input id="inviteEmail" type="email" value={newInvite.email} onChange={e => setNewInvite(prev => ({ ...prev, email: e.target.value }))} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="inviteSegment">Segment</Label>
+                <Input
+                  id="inviteSegment"
+                  placeholder="e.g. Churned customers"
+                  value={newInvite.segment}
+                  onChange={e => setNewInvite(prev => ({ ...prev, segment: e.target.value }))}
+                />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => createInvites([{
+                  name: newInvite.name.trim() || null,
+                  email: newInvite.email.trim() || null,
+                  segment: newInvite.segment.trim() || null,
+                }])}
+                disabled={creating || (!newInvite.name.trim() && !newInvite.email.trim())}
+              >
+                {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Invite
+              </Button>
+            </TabsContent>
+            <TabsContent value="csv" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="inviteCsv">CSV file</Label>
+                <Input id="inviteCsv" type="file" accept=".csv,text/csv" onChange={e => handleCsvFile(e.target.files?.[0])} />
+                <p className="text-xs text-slate-500">
+                  A header row with name, email and segment columns; each row needs a name or an email. Up to {MAX_CSV_INVITES} rows.
+                </p>
+              </div>
+              {csvErrors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5 max-h-32 overflow-y-auto">
+                  {csvErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+              <Button className="w-full" onClick={() => createInvites(csvInvites)} disabled={creating || csvBlocked}>
+                {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                {csvInvites.length > 0 ? `Create ${csvInvites.length} Invites` : 'Create Invites'}
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
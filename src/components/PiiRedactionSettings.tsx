@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Save } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import type { Json } from '@/lib/database.types'
+import {
+  REDACTION_CATEGORIES,
+  REDACTION_CATEGORY_DESCRIPTIONS,
+  REDACTION_KIND_LABELS,
+  REDACTION_LIMITS,
+  resolveRedactionSettings,
+  type RedactionCategory,
+  type RedactionSettings,
+} from '@shared/redaction'
+
+interface PiiRedactionSettingsProps {
+  projectId: string;
+  settings: RedactionSettings;
+  canEdit: boolean;
+  onSaved: (settings: RedactionSettings) => void;
+}
+
+const RETENTION_OPTIONS = [
+  { days: 0, label: "Don't keep originals" },
+  { days: 7, label: 'Keep originals for 7 days' },
+  { days: 30, label: 'Keep originals for 30 days' },
+  { days: 90, label: 'Keep originals for 90 days' },
+  { days: 365, label: 'Keep originals for 1 year' },
+]
+
+const parseTerms = (value: string) => value.split('\n').map(term => term.trim()).filter(Boolean)
+
+export default function PiiRedactionSettings({ projectId, settings, canEdit, onSaved }: PiiRedactionSettingsProps) {
+  const [categories, setCategories] = useState<RedactionCategory[]>(settings.categories)
+  const [termsText, setTermsText] = useState(settings.customTerms.join('\n'))
+  const [retentionDays, setRetentionDays] = useState(settings.originalsRetentionDays)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const retentionOptions = RETENTION_OPTIONS.some(option => option.days === retentionDays)
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, { days: retentionDays, label: `Keep originals for ${retentionDays} days` }]
+
+  const toggleCategory = (category: RedactionCategory, enabled: boolean) => {
+    setCategories(prev => enabled ? [...prev, category] : prev.filter(c => c !== category))
+  }
+
+  const handleSave = async () => {
+    const terms = parseTerms(termsText)
+    if (terms.length > REDACTION_LIMITS.customTerms) {
+      setError(`Add at most ${REDACTION_LIMITS.customTerms} custom terms.`)
+      return
+    }
+    if (terms.some(term => term.length > REDACTION_LIMITS.customTermLength)) {
+      setError(`Keep each custom term under ${REDACTION_LIMITS.customTermLength} characters.`)
+      return
+    }
+    const updated = resolveRedactionSettings({ categories, customTerms: terms, originalsRetentionDays: retentionDays })
+    setSaving(true)
+    setError(null)
+    const { error: updateError } = await supabase
+      .from('projects')
+      .update({ redaction_settings: updated as unknown as Json })
+      .eq('id', projectId)
+    setSaving(false)
+    if (updateError) {
+      console.error('Redaction settings update error:', updateError)
+      setError(updateError.message)
+      return
+    }
+    setTermsText(updated.customTerms.join('\n'))
+    onSaved(updated)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal data redaction</CardTitle>
+        <CardDescription>
+          Respondent messages are redacted before they are stored or sent to the AI, so transcripts, quotes and exports only contain the redacted text.
+          Changes apply to new messages and to insights generated from now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {REDACTION_CATEGORIES.map(category => (
+            <div key={category} className="flex items-start space-x-3">
+              <Switch
+                id={`redact-${category}`}
+                checked={categories.includes(category)}
+                onCheckedChange={(checked) => toggleCategory(category, checked)}
+                disabled={!canEdit}
+              />
+              <div>
+                <Label htmlFor={`redact-${category}`} className="text-sm">{REDACTION_KIND_LABELS[category]}</Label>
+                <p className="text-xs text-slate-500">{REDACTION_CATEGORY_DESCRIPTIONS[category]}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="customTerms">Custom terms (one per line)</Label>
+          <Textarea
+            id="customTerms"
+            className="min-h-[100px]"
+            placeholder={'e.g. a customer name\nan internal project codename'}
+            value={termsText}
+            onChange={(e) => setTermsText(e.target.value)}
+            disabled={!canEdit}
+          />
+          <p className="text-xs text-slate-500">Matched as whole words, ignoring case.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Unredacted originals</Label>
+          <Select value={String(retentionDays)} onValueChange={(value) => setRetentionDays(Number(value))} disabled={!canEdit}>
+            <SelectTrigger className="md:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {retentionOptions.map(option => (
+                <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-500">Only workspace owners can reveal an original, and only until it expires.</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {canEdit && (
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            >
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Redaction Settings
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ChevronDown, Loader2 } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import {
+  PROJECT_STATUS_ACTIONS,
+  PROJECT_STATUS_COLORS,
+  PROJECT_STATUS_LABELS,
+  PROJECT_STATUS_TRANSITIONS,
+  isProjectStatus,
+  type ProjectStatus,
+} from '@/lib/projectStatus'
+
+interface ProjectStatusControlProps {
+  projectId: string;
+  status?: string | null;
+  onChanged: (status: ProjectStatus) => void;
+  // Show the badge without transitions, e.g. for workspace viewers
+  readOnly?: boolean;
+}
+
+export default function ProjectStatusControl({ projectId, status, onChanged, readOnly = false }: ProjectStatusControlProps) {
+  const [updating, setUpdating] = useState(false)
+  const current: ProjectStatus = isProjectStatus(status) ? status : 'draft'
+  const transitions = readOnly ? [] : PROJECT_STATUS_TRANSITIONS[current]
+
+  const handleChange = async (next: ProjectStatus) => {
+    if (next === 'completed' && !confirm('Completing a project closes its interview link for good. Continue?')) return
+    setUpdating(true)
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ status: next })
+        .eq('id', projectId)
+
+      if (error) throw error
+      onChanged(next)
+    } catch (error: unknown) {
+      console.error('Project status update error:', error)
+      alert(`Failed to update project status: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  if (transitions.length === 0) {
+    return <Badge className={PROJECT_STATUS_COLORS[current]}>{PROJECT_STATUS_LABELS[current]}</Badge>
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto p-0 hover:bg-transparent" disabled={updating}>
+          <Badge className={PROJECT_STATUS_COLORS[current]}>
+            {PROJECT_STATUS_LABELS[current]}
+            {updating ? <Loader2 className="w-3 h-3 ml-1 animate-spin" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+          </Badge>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {transitions.map(next => (
+          <DropdownMenuItem key={next} onSelect={() => handleChange(next)}>
+            {PROJECT_STATUS_ACTIONS[next]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { ArrowRight, ExternalLink, Loader2 } from 'lucide-react'
+import { getConsentCheckboxes, isValidPrivacyPolicyUrl, type ConsentNotice } from '@shared/consent'
+
+interface RespondentConsentProps {
+  notice: ConsentNotice;
+  submitting: boolean;
+  onAccept: () => void;
+}
+
+// The consent step respondents see after the welcome card; every box must be ticked
+export default function RespondentConsent({ notice, submitting, onAccept }: RespondentConsentProps) {
+  const checkboxes = getConsentCheckboxes(notice)
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+  const complete = checkboxes.every(checkbox => accepted.has(checkbox.id))
+
+  const toggle = (id: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-700 whitespace-pre-wrap">{notice.text}</p>
+      {isValidPrivacyPolicyUrl(notice.privacyPolicyUrl) && (
+        <a href={notice.privacyPolicyUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+          Read the privacy policy
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </a>
+      )}
+
+      <div className="space-y-3">
+        {checkboxes.map(checkbox => (
+          <div key={checkbox.id} className="flex items-start space-x-3">
+            <Checkbox
+              id={`consent-${checkbox.id}`}
+              className="mt-0.5"
+              checked={accepted.has(checkbox.id)}
+              onCheckedChange={(checked) => toggle(checkbox.id, checked === true)}
+            />
+            <Label htmlFor={`consent-${checkbox.id}`} className="font-normal leading-snug text-slate-700">{checkbox.label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        onClick={onAccept}
+        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 py-6 text-lg"
+        disabled={!complete || submitting}
+      >
+        {submitting ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <ArrowRight className="w-5 h-5 mr-2" />}
+        {submitting ? 'Initializing...' : 'I Agree, Continue'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ArrowRight, Loader2 } from 'lucide-react'
+import { evaluateScreener, type ScreenerAnswers, type ScreenerQuestion } from '@shared/screener'
+
+interface RespondentScreenerProps {
+  questions: ScreenerQuestion[];
+  submitting: boolean;
+  onSubmit: (answers: ScreenerAnswers) => void;
+}
+
+// The screener step respondents see between the welcome card and the chat
+export default function RespondentScreener({ questions, submitting, onSubmit }: RespondentScreenerProps) {
+  const [answers, setAnswers] = useState<ScreenerAnswers>({})
+  const complete = evaluateScreener({ questions }, answers) !== null
+
+  const setAnswer = (questionId: string, answer: ScreenerAnswers[string] | undefined) => {
+    setAnswers(prev => {
+      const next = { ...prev }
+      if (answer === undefined) delete next[questionId]
+      else next[questionId] = answer
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-600">A few quick questions first, so we talk to the right people.</p>
+      {questions.map((question, index) => (
+        <div key={question.id} className="space-y-3">
+          <Label className="text-base font-medium text-slate-900">{index + 1}. {question.text}</Label>
+
+          {question.type === 'multiple_choice' && (
+            <RadioGroup
+              value={typeof answers[question.id] === 'string' ? (answers[question.id] as string) : ''}
+              onValueChange={(value) => setAnswer(question.id, value)}
+            >
+              {(question.options ?? []).map(option => (
+                <div key={option} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                  <Label htmlFor={`${question.id}-${option}`} className="font-normal">{option}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+
+          {question.type === 'numeric' && (
+            <Input
+              type="number"
+              inputMode="decimal"
+              className="max-w-[12rem]"
+              value={typeof answers[question.id] === 'number' ? String(answers[question.id]) : ''}
+              onChange={(e) => setAnswer(question.id, e.target.value.trim() === '' ? undefined : Number(e.target.value))}
+            />
+          )}
+
+          {question.type === 'yes_no' && (
+            <RadioGroup
+              className="flex space-x-6"
+              value={typeof answers[question.id] === 'boolean' ? String(answers[question.id]) : ''}
+              onValueChange={(value) => setAnswer(question.id, value === 'true')}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="true" id={`${question.id}-yes`} />
+                <Label htmlFor={`${question.id}-yes`} className="font-normal">Yes</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="false" id={`${question.id}-no`} />
+                <Label htmlFor={`${question.id}-no`} className="font-normal">No</Label>
+              </div>
+            </RadioGroup>
+          )}
+        </div>
+      ))}
+
+      <Button
+        onClick={() => onSubmit(answers)}
+        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 py-6 text-lg"
+        disabled={!complete || submitting}
+      >
+        {submitting ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <ArrowRight className="w-5 h-5 mr-2" />}
+        {submitting ? 'Initializing...' : 'Continue'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import type { Json } from '@/lib/database.types'
+import {
+  SCREENER_QUESTION_TYPES,
+  SCREENER_QUESTION_TYPE_LABELS,
+  getScreenerQuestions,
+  type Screener,
+  type ScreenerQuestion,
+  type ScreenerQuestionType,
+} from '@shared/screener'
+
+interface ScreenerEditorProps {
+  projectId: string;
+  screener: Screener | null | undefined;
+  onSaved: (screener: Screener | null) => void;
+  onCancel: () => void;
+}
+
+// Select values for the yes/no qualify rule
+const YES_NO_RULES = [
+  { value: 'any', label: 'Either answer qualifies', answer: null },
+  { value: 'yes', label: 'Only "Yes" qualifies', answer: true },
+  { value: 'no', label: 'Only "No" qualifies', answer: false },
+]
+
+const numberOrNull = (value: string) => value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value)
+
+// Returns the first problem that would make the screener unusable for respondents
+const validateQuestions = (questions: ScreenerQuestion[]): string | null => {
+  for (const [index, question] of questions.entries()) {
+    const label = `Question ${index + 1}`
+    if (!question.text.trim()) return `${label} needs some text.`
+    if (question.type === 'multiple_choice') {
+      const options = (question.options ?? []).map(o => o.trim())
+      if (options.filter(Boolean).length < 2) return `${label} needs at least two choices.`
+      if (options.some(o => !o)) return `${label} has an empty choice.`
+      if (new Set(options).size !== options.length) return `${label} lists the same choice twice.`
+    }
+    if (question.type === 'numeric' && question.min != null && question.max != null && question.min > question.max) {
+      return `${label} has a minimum above its maximum.`
+    }
+  }
+  return null
+}
+
+export default function ScreenerEditor({ projectId, screener, onSaved, onCancel }: ScreenerEditorProps) {
+  const [questions, setQuestions] = useState<ScreenerQuestion[]>(() => getScreenerQuestions(screener))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateQuestion = (id: string, patch: Partial<ScreenerQuestion>) => {
+    setQuestions(prev => prev.map(q => q.id === id ? { ...q, ...patch } : q))
+  }
+
+  const addQuestion = () => {
+    setQuestions(prev => [...prev, { id: `s-${crypto.randomUUID().slice(0, 8)}`, text: '', type: 'yes_no', qualifyingAnswer: null }])
+  }
+
+  const deleteQuestion = (id: string) => {
+    setQuestions(prev => prev.filter(q => q.id !== id))
+  }
+
+  // Each type keeps only its own rule fields
+  const changeType = (question: ScreenerQuestion, type: ScreenerQuestionType) => {
+    const base = { id: question.id, text: question.text, type }
+    const next: ScreenerQuestion =
+      type === 'multiple_choice' ? { ...base, options: ['', ''], qualifyingOptions: [] }
+      : type === 'numeric' ? { ...base, min: null, max: null }
+      : { ...base, qualifyingAnswer: null }
+    setQuestions(prev => prev.map(q => q.id === question.id ? next : q))
+  }
+
+  const updateOption = (question: ScreenerQuestion, index: number, value: string) => {
+    const previous = question.options?.[index] ?? ''
+    updateQuestion(question.id, {
+      options: (question.options ?? []).map((o, i) => i === index ? value : o),
+      qualifyingOptions: (question.qualifyingOptions ?? []).map(o => o === previous ? value : o),
+    })
+  }
+
+  const removeOption = (question: ScreenerQuestion, index: number) => {
+    const removed = question.options?.[index]
+    updateQuestion(question.id, {
+      options: (question.options ?? []).filter((_, i) => i !== index),
+      qualifyingOptions: (question.qualifyingOptions ?? []).filter(o => o !== removed),
+    })
+  }
+
+  const toggleQualifying = (question: ScreenerQuestion, option: string, qualifies: boolean) => {
+    const current = question.qualifyingOptions ?? []
+    updateQuestion(question.id, { qualifyingOptions: qualifies ? [...current, option] : current.filter(o => o !== option) })
+  }
+
+  const handleSave = async () => {
+    const problem = validateQuestions(questions)
+    if (problem) {
+      setError(problem)
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const updatedScreener: Screener | null = questions.length === 0 ? null : {
+        questions: questions.map(q => q.type === 'multiple_choice'
+          ? { ...q, text: q.text.trim(), options: q.options?.map(o => o.trim()), qualifyingOptions: q.qualifyingOptions?.map(o => o.trim()) }
+          : { ...q, text: q.text.trim() }),
+      }
+      const { error: updateError } = await supabase
+        .from('projects')
+        .update({ screener: updatedScreener as unknown as Json })
+        .eq('id', projectId)
+
+      if (updateError) throw updateError
+      onSaved(updatedScreener)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save the screener.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1 custom-scrollbar">
+        {questions.length === 0 && (
+          <p className="text-slate-500 italic text-sm">No screener questions. Everyone who opens the link goes straight to the interview.</p>
+        )}
+        {questions.map((question, index) => (
+          <div key={question.id} className="rounded-lg border border-slate-200 bg-white p-4">
+            <div className="flex items-start gap-3">
+              <span className="mt-2 text-sm font-medium text-slate-500 w-6">{index + 1}.</span>
+              <div className="flex-1 space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={question.text}
+                    placeholder="e.g. How many people are on your team?"
+                    onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+                  />
+                  <Select value={question.type} onValueChange={(value) => changeType(question, value as ScreenerQuestionType)}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCREENER_QUESTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{SCREENER_QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => deleteQuestion(question.id)} aria-label="Delete question">
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+
+                {question.type === 'multiple_choice' && (
+                  <div className="space-y-2">
+                    <Label className="text-xs text-slate-600">Choices (tick the ones that qualify; none ticked means all qualify)</Label>
+                    {(question.options ?? []).map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center gap-2">
+                        <Checkbox
+                          checked={!!option && (question.qualifyingOptions ?? []).includes(option)}
+                          onCheckedChange={(checked) => toggleQualifying(question, option, checked === true)}
+                          disabled={!option.trim()}
+                          aria-label="Qualifies"
+                        />
+                        <Input value={option} placeholder={`Choice ${optionIndex + 1}`} onChange={(e) => updateOption(question, optionIndex, e.target.value)} />
+                        <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(question, optionIndex)} aria-label="Remove choice">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateQuestion(question.id, { options: [...(question.options ?? []), ''] })}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Choice
+                    </Button>
+                  </div>
+                )}
+
+                {question.type === 'numeric' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-600">Minimum to qualify (optional)</Label>
+                      <Input
+                        type="number"
+                        value={question.min ?? ''}
+                        onChange={(e) => updateQuestion(question.id, { min: numberOrNull(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-600">Maximum to qualify (optional)</Label>
+                      <Input
+                        type="number"
+                        value={question.max ?? ''}
+                        onChange={(e) => updateQuestion(question.id, { max: numberOrNull(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {question.type === 'yes_no' && (
+                  <Select
+                    value={YES_NO_RULES.find(rule => rule.answer === (question.qualifyingAnswer ?? null))?.value ?? 'any'}
+                    onValueChange={(value) => updateQuestion(question.id, { qualifyingAnswer: YES_NO_RULES.find(rule => rule.value === value)?.answer ?? null })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {YES_NO_RULES.map(rule => (
+                        <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={addQuestion}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Question
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          >
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Screener
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
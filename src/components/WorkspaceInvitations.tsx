@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Loader2, Mail } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { WORKSPACE_ROLE_LABELS, isWorkspaceRole } from '@shared/workspaces'
+
+interface ReceivedInvitation {
+  id: string;
+  role: string;
+  workspaces: { name: string } | null;
+}
+
+// Invitations addressed to the signed-in user's email, shown on the dashboard
+export default function WorkspaceInvitations() {
+  const { user } = useAuth()
+  const { refreshWorkspaces, switchWorkspace } = useWorkspace()
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([])
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user?.email) return
+    supabase
+      .from('workspace_invitations')
+      .select('id, role, workspaces (name)')
+      .ilike('email', user.email)
+      .is('accepted_at', null)
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching workspace invitations:', error)
+        setInvitations(data || [])
+      })
+  }, [user])
+
+  const handleAccept = async (invitationId: string) => {
+    setRespondingId(invitationId)
+    try {
+      const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invitation', { target_invitation_id: invitationId })
+      if (error) throw error
+      setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+      await refreshWorkspaces()
+      switchWorkspace(workspaceId)
+    } catch (error: unknown) {
+      console.error('Invitation accept error:', error)
+      alert(`Failed to join workspace: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRespondingId(null)
+    }
+  }
+
+  const handleDecline = async (invitationId: string) => {
+    setRespondingId(invitationId)
+    const { error } = await supabase.from('workspace_invitations').delete().eq('id', invitationId)
+    setRespondingId(null)
+    if (error) {
+      console.error('Invitation decline error:', error)
+      alert(`Failed to decline invitation: ${error.message}`)
+      return
+    }
+    setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+  }
+
+  return (
+    <>
+      {invitations.map(invitation => (
+        <div key={invitation.id} className="mt-4 p-4 rounded-lg border bg-blue-50 border-blue-200 flex items-start space-x-3">
+          <Mail className="w-5 h-5 flex-shrink-0 text-blue-600" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-blue-800">
+              You've been invited to {invitation.workspaces?.name ?? 'a workspace'}
+            </p>
+            <p className="text-sm text-blue-700">
+              Join as {isWorkspaceRole(invitation.role) ? WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase() : invitation.role} to see its projects and interviews.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => handleDecline(invitation.id)} disabled={respondingId === invitation.id}>
+              Decline
+            </Button>
+            <Button size="sm" onClick={() => handleAccept(invitation.id)} disabled={respondingId === invitation.id}>
+              {respondingId === invitation.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Join
+            </Button>
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Lock, Mail, Trash2, UserPlus } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import type { Database, Tables } from '@/lib/database.types'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { useEntitlements } from '@/hooks/use-entitlements'
+import { FEATURE_LABELS, PLANS, planForFeature } from '@shared/entitlements'
+import {
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  isWorkspaceRole,
+  type WorkspaceRole,
+} from '@shared/workspaces'
+
+interface WorkspaceMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type WorkspaceMember = Database['public']['Functions']['get_workspace_members']['Returns'][number]
+
+type PendingInvitation = Pick<Tables<'workspace_invitations'>, 'id' | 'email' | 'role' | 'created_at'>
+
+const fetchMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const { data, error } = await supabase.rpc('get_workspace_members', { target_workspace_id: workspaceId })
+  if (error) throw error
+  return data
+}
+
+// Owner first, most access to least
+const ROLE_OPTIONS = [...WORKSPACE_ROLES].reverse()
+
+export default function WorkspaceMembersDialog({ open, onOpenChange }: WorkspaceMembersDialogProps) {
+  const { user } = useAuth()
+  const { currentWorkspace, can, refreshWorkspaces } = useWorkspace()
+  const { entitlements, can: canUseFeature } = useEntitlements()
+  const isOwner = can('owner')
+
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor')
+  const [inviting, setInviting] = useState(false)
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null)
+
+  const workspaceId = currentWorkspace?.id
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return
+    setLoading(true)
+    setError(null)
+    try {
+      setMembers(await fetchMembers(workspaceId))
+      // Only owners can see pending invitations
+      if (isOwner) {
+        const { data, error: invitationsError } = await supabase
+          .from('workspace_invitations')
+          .select('id, email, role, created_at')
+          .eq('workspace_id', workspaceId)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: true })
+        if (invitationsError) throw invitationsError
+        setInvitations(data || [])
+      } else {
+        setInvitations([])
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load workspace members.')
+      console.error('Workspace members fetch error:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [workspaceId, isOwner])
+
+  useEffect(() => {
+    if (open) loadMembers()
+  }, [open, loadMembers])
+
+  const handleInvite = async () => {
+    if (!workspaceId || !inviteEmail.trim()) return
+    setInviting(true)
+    try {
+      const { data, error: inviteError } = await supabase.functions.invoke<{ emailSent: boolean }>('invite-workspace-member', {
+        body: { workspaceId, email: inviteEmail.trim(), role: inviteRole },
+      })
+      if (inviteError || !data) throw await toFunctionError(inviteError)
+      if (!data.emailSent) {
+        alert(`${inviteEmail.trim()} already has an account. They'll see the invitation on their dashboard.`)
+      }
+      setInviteEmail('')
+      await loadMembers()
+    } catch (err: unknown) {
+      console.error('Workspace invite error:', err)
+      alert(`Failed to send invitation: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (memberId: string, role: WorkspaceRole) => {
+    if (!workspaceId) return
+    setUpdatingUserId(memberId)
+    try {
+      const { error: updateError } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', memberId)
+      if (updateError) throw updateError
+      await loadMembers()
+      if (memberId === user?.id) await refreshWorkspaces()
+    } catch (err: unknown) {
+      console.error('Member role update error:', err)
+      alert(`Failed to change role: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setUpdatingUserId(null)
+    }
+  }
+
+  const handleRemove = async (memberId: string) => {
+    if (!workspaceId) return
+    const leaving = memberId === user?.id
+    if (!confirm(leaving ? `Leave ${currentWorkspace?.name}?` : 'Remove this member from the workspace?')) return
+    setUpdatingUserId(memberId)
+    try {
+      const { error: deleteError } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', memberId)
+      if (deleteError) throw deleteError
+      if (leaving) {
+        onOpenChange(false)
+        await refreshWorkspaces()
+      } else {
+        await loadMembers()
+      }
+    } catch (err: unknown) {
+      console.error('Member removal error:', err)
+      alert(`Failed to remove member: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setUpdatingUserId(null)
+    }
+  }
+
+  const handleRevoke = async (invitationId: string) => {
+    const { error: revokeError } = await supabase.from('workspace_invitations').delete().eq('id', invitationId)
+    if (revokeError) {
+      console.error('Invitation revoke error:', revokeError)
+      alert(`Failed to revoke invitation: ${revokeError.message}`)
+      return
+    }
+    setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+  }
+
+  const seatsUsed = members.length + invitations.length
+  const teamCollaborationPlan = PLANS[planForFeature('teamCollaboration')].name
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>{currentWorkspace?.name} members</DialogTitle>
+          <DialogDescription>
+            Everyone here can read the workspace's interviews and insights. Editors run projects; owners also manage members and billing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {members.map(member => (
+                <div key={member.user_id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 truncate">
+                      {member.full_name || member.email}
+                      {member.user_id === user?.id && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                    </p>
+                    {member.full_name && <p className="text-xs text-slate-500 truncate">{member.email}</p>}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isOwner && isWorkspaceRole(member.role) ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={value => isWorkspaceRole(value) && handleRoleChange(member.user_id, value)}
+                        disabled={updatingUserId === member.user_id}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLE_OPTIONS.map(role => (
+                            <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{isWorkspaceRole(member.role) ? WORKSPACE_ROLE_LABELS[member.role] : member.role}</Badge>
+                    )}
+                    {(isOwner || member.user_id === user?.id) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(member.user_id)}
+                        disabled={updatingUserId === member.user_id}
+                        title={member.user_id === user?.id ? 'Leave workspace' : 'Remove member'}
+                      >
+                        {updatingUserId === member.user_id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 rounded-lg border border-dashed p-3">
+                  <div className="flex items-center min-w-0">
+                    <Mail className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                    <p className="text-sm text-slate-700 truncate">{invitation.email}</p>
+                    <Badge variant="outline" className="ml-2">Invited</Badge>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant="secondary">{isWorkspaceRole(invitation.role) ? WORKSPACE_ROLE_LABELS[invitation.role] : invitation.role}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation.id)} title="Revoke invitation">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (canUseFeature('teamCollaboration') ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="inviteEmail">Invite by email</Label>
+                  <span className="text-xs text-slate-500">{seatsUsed} / {entitlements.teamSeats} seats</span>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    id="inviteEmail"
+                    type="email"
+                    placeholder="teammate@company.com"
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    disabled={inviting}
+                  />
+                  <Select value={inviteRole} onValueChange={value => isWorkspaceRole(value) && setInviteRole(value)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLE_OPTIONS.map(role => (
+                        <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleInvite} disabled={inviting || !inviteEmail.trim() || seatsUsed >= entitlements.teamSeats}>
+                    {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500">{WORKSPACE_ROLE_DESCRIPTIONS[inviteRole]}</p>
+              </div>
+            ) : (
+              <div className="flex items-start rounded-lg border bg-slate-50 p-3 text-sm text-slate-600">
+                <Lock className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                {FEATURE_LABELS.teamCollaboration} is available on the {teamCollaborationPlan} plan. Upgrade from Manage Billing to invite your team.
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
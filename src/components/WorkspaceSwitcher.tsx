@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Check, ChevronDown, Loader2, Plus, Users } from 'lucide-react'
+import { supabase } from '@/lib/supabaseClient'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { WORKSPACE_ROLE_LABELS } from '@shared/workspaces'
+
+interface WorkspaceSwitcherProps {
+  onManageMembers: () => void;
+}
+
+export default function WorkspaceSwitcher({ onManageMembers }: WorkspaceSwitcherProps) {
+  const { workspaces, currentWorkspace, loading, switchWorkspace, refreshWorkspaces } = useWorkspace()
+  const [creating, setCreating] = useState(false)
+
+  const handleCreate = async () => {
+    const name = prompt('Name the new workspace')?.trim()
+    if (!name) return
+    setCreating(true)
+    try {
+      const { data: workspace, error } = await supabase.rpc('create_workspace', { workspace_name: name })
+      if (error) throw error
+      await refreshWorkspaces()
+      switchWorkspace(workspace.id)
+    } catch (error: unknown) {
+      console.error('Workspace creation error:', error)
+      alert(`Failed to create workspace: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (loading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-[14rem]" disabled={creating}>
+          <span className="truncate">{currentWorkspace?.name ?? 'No workspace'}</span>
+          {creating ? <Loader2 className="w-4 h-4 ml-2 animate-spin" /> : <ChevronDown className="w-4 h-4 ml-2 flex-shrink-0" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        {workspaces.map(workspace => (
+          <DropdownMenuItem key={workspace.id} onSelect={() => switchWorkspace(workspace.id)}>
+            <Check className={`w-4 h-4 mr-2 ${workspace.id === currentWorkspace?.id ? 'opacity-100' : 'opacity-0'}`} />
+            <span className="truncate flex-1">{workspace.name}</span>
+            <span className="ml-2 text-xs text-slate-500">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {currentWorkspace && (
+          <DropdownMenuItem onSelect={onManageMembers}>
+            <Users className="w-4 h-4 mr-2" />
+            Members
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={handleCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New workspace
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,93 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import { hasWorkspaceRole, isWorkspaceRole, type WorkspaceRole } from '@shared/workspaces';
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceContextType {
+  workspaces: WorkspaceSummary[];
+  currentWorkspace: WorkspaceSummary | null;
+  loading: boolean;
+  switchWorkspace: (workspaceId: string) => void;
+  refreshWorkspaces: () => Promise<void>;
+  // Whether the current user has at least this role in the current workspace
+  can: (minRole: WorkspaceRole) => boolean;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+// The selected workspace is remembered per user on this device.
+const currentWorkspaceKey = (userId: string) => `current-workspace:${userId}`;
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      setCurrentWorkspaceId(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces (id, name)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching workspaces:', error);
+    }
+    const memberships = (data || []).flatMap(({ role, workspaces: workspace }) =>
+      workspace && isWorkspaceRole(role) ? [{ id: workspace.id, name: workspace.name, role }] : []
+    );
+    setWorkspaces(memberships);
+    setCurrentWorkspaceId(previous => {
+      const preferred = previous ?? localStorage.getItem(currentWorkspaceKey(user.id));
+      return memberships.find(w => w.id === preferred)?.id ?? memberships[0]?.id ?? null;
+    });
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    setLoading(true);
+    setCurrentWorkspaceId(null);
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const switchWorkspace = useCallback((workspaceId: string) => {
+    if (!user) return;
+    localStorage.setItem(currentWorkspaceKey(user.id), workspaceId);
+    setCurrentWorkspaceId(workspaceId);
+  }, [user]);
+
+  const currentWorkspace = workspaces.find(w => w.id === currentWorkspaceId) ?? null;
+
+  const value = useMemo(() => ({
+    workspaces,
+    currentWorkspace,
+    loading,
+    switchWorkspace,
+    refreshWorkspaces,
+    can: (minRole: WorkspaceRole) => hasWorkspaceRole(currentWorkspace?.role, minRole),
+  }), [workspaces, currentWorkspace, loading, switchWorkspace, refreshWorkspaces]);
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
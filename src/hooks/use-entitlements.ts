@@ -0,0 +1,48 @@
+import * as React from "react"
+import { useWorkspace } from "@/contexts/WorkspaceContext"
+import { supabase } from "@/lib/supabaseClient"
+import {
+  NO_PLAN_ENTITLEMENTS,
+  getEntitlements,
+  hasFeature,
+  type Entitlements,
+  type Feature,
+} from "@shared/entitlements"
+
+// The current workspace's plan entitlements. Gating in the UI is a courtesy;
+// the edge functions check the same definitions before doing paid work.
+export function useEntitlements() {
+  const { currentWorkspace } = useWorkspace()
+  const workspaceId = currentWorkspace?.id
+  const [entitlements, setEntitlements] = React.useState<Entitlements>(NO_PLAN_ENTITLEMENTS)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    if (!workspaceId) {
+      setEntitlements(NO_PLAN_ENTITLEMENTS)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    supabase
+      .from("subscriptions")
+      .select("plan_type, status")
+      .eq("workspace_id", workspaceId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) console.error("Error fetching subscription:", error)
+        setEntitlements(getEntitlements(data))
+        setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [workspaceId])
+
+  const can = React.useCallback((feature: Feature) => hasFeature(entitlements, feature), [entitlements])
+
+  return { entitlements, loading, can }
+}
@@ -0,0 +1,961 @@
+// Generated from the local database by `npm run db:types` (supabase gen types
+// typescript). Do not edit by hand: add a migration under supabase/migrations
+// and regenerate.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      consent_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notice: Json
+          project_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notice: Json
+          project_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notice?: Json
+          project_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consent_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_originals: {
+        Row: {
+          content: string
+          conversation_id: number
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id: number
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: number
+          created_at?: string
+          expires_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_originals_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: true
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          content: string
+          created_at: string
+          guardrail_flags: string[]
+          id: number
+          interview_id: string
+          question_id: string | null
+          redactions: string[]
+          sender_type: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          guardrail_flags?: string[]
+          id?: never
+          interview_id: string
+          question_id?: string | null
+          redactions?: string[]
+          sender_type: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          guardrail_flags?: string[]
+          id?: never
+          interview_id?: string
+          question_id?: string | null
+          redactions?: string[]
+          sender_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      insights: {
+        Row: {
+          created_at: string
+          id: string
+          interview_id: string | null
+          key_learnings: Json | null
+          objections: Json | null
+          pain_points: Json | null
+          product_ideas: Json | null
+          project_id: string
+          quotes: Json | null
+          summary_text: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interview_id?: string | null
+          key_learnings?: Json | null
+          objections?: Json | null
+          pain_points?: Json | null
+          product_ideas?: Json | null
+          project_id: string
+          quotes?: Json | null
+          summary_text?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interview_id?: string | null
+          key_learnings?: Json | null
+          objections?: Json | null
+          pain_points?: Json | null
+          product_ideas?: Json | null
+          project_id?: string
+          quotes?: Json | null
+          summary_text?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "insights_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "insights_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_guide_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          guide: Json
+          id: string
+          project_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          guide: Json
+          id?: string
+          project_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          guide?: Json
+          id?: string
+          project_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_guide_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          name: string | null
+          project_id: string
+          revoked_at: string | null
+          segment: string | null
+          single_use: boolean
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          name?: string | null
+          project_id: string
+          revoked_at?: string | null
+          segment?: string | null
+          single_use?: boolean
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          name?: string | null
+          project_id?: string
+          revoked_at?: string | null
+          segment?: string | null
+          single_use?: boolean
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_invites_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_link_opens: {
+        Row: {
+          id: number
+          opened_at: string
+          project_id: string
+          referrer: string | null
+          visitor_id: string
+        }
+        Insert: {
+          id?: never
+          opened_at?: string
+          project_id: string
+          referrer?: string | null
+          visitor_id: string
+        }
+        Update: {
+          id?: never
+          opened_at?: string
+          project_id?: string
+          referrer?: string | null
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_link_opens_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interviewer_requests: {
+        Row: {
+          client_ip_hash: string | null
+          created_at: string
+          id: number
+          interview_id: string
+        }
+        Insert: {
+          client_ip_hash?: string | null
+          created_at?: string
+          id?: never
+          interview_id: string
+        }
+        Update: {
+          client_ip_hash?: string | null
+          created_at?: string
+          id?: never
+          interview_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interviewer_requests_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interviews: {
+        Row: {
+          completed_at: string | null
+          conclusion_reason: string | null
+          consent_accepted_at: string | null
+          consent_version_id: string | null
+          created_at: string
+          guide_progress: Json | null
+          guide_version_id: string | null
+          id: string
+          invite_id: string | null
+          last_activity_at: string
+          processed_at: string | null
+          processing_attempts: number
+          processing_error: string | null
+          processing_started_at: string | null
+          processing_status: string | null
+          project_id: string
+          resume_token: string
+          screener_answers: Json | null
+          started_at: string | null
+          status: string
+          usage_recorded_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          conclusion_reason?: string | null
+          consent_accepted_at?: string | null
+          consent_version_id?: string | null
+          created_at?: string
+          guide_progress?: Json | null
+          guide_version_id?: string | null
+          id?: string
+          invite_id?: string | null
+          last_activity_at?: string
+          processed_at?: string | null
+          processing_attempts?: number
+          processing_error?: string | null
+          processing_started_at?: string | null
+          processing_status?: string | null
+          project_id: string
+          resume_token?: string
+          screener_answers?: Json | null
+          started_at?: string | null
+          status?: string
+          usage_recorded_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          conclusion_reason?: string | null
+          consent_accepted_at?: string | null
+          consent_version_id?: string | null
+          created_at?: string
+          guide_progress?: Json | null
+          guide_version_id?: string | null
+          id?: string
+          invite_id?: string | null
+          last_activity_at?: string
+          processed_at?: string | null
+          processing_attempts?: number
+          processing_error?: string | null
+          processing_started_at?: string | null
+          processing_status?: string | null
+          project_id?: string
+          resume_token?: string
+          screener_answers?: Json | null
+          started_at?: string | null
+          status?: string
+          usage_recorded_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interviews_consent_version_id_fkey"
+            columns: ["consent_version_id"]
+            isOneToOne: false
+            referencedRelation: "consent_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_guide_version_id_fkey"
+            columns: ["guide_version_id"]
+            isOneToOne: false
+            referencedRelation: "interview_guide_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "interview_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          conclusion_policy: Json
+          created_at: string
+          current_consent_version_id: string | null
+          current_guide_version_id: string | null
+          description: string | null
+          id: string
+          interview_guide: Json | null
+          invite_only: boolean
+          max_responses: number | null
+          product_idea_prompt: string | null
+          redaction_settings: Json
+          screener: Json | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          conclusion_policy?: Json
+          created_at?: string
+          current_consent_version_id?: string | null
+          current_guide_version_id?: string | null
+          description?: string | null
+          id?: string
+          interview_guide?: Json | null
+          invite_only?: boolean
+          max_responses?: number | null
+          product_idea_prompt?: string | null
+          redaction_settings?: Json
+          screener?: Json | null
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          conclusion_policy?: Json
+          created_at?: string
+          current_consent_version_id?: string | null
+          current_guide_version_id?: string | null
+          description?: string | null
+          id?: string
+          interview_guide?: Json | null
+          invite_only?: boolean
+          max_responses?: number | null
+          product_idea_prompt?: string | null
+          redaction_settings?: Json
+          screener?: Json | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_current_consent_version_id_fkey"
+            columns: ["current_consent_version_id"]
+            isOneToOne: false
+            referencedRelation: "consent_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_current_guide_version_id_fkey"
+            columns: ["current_guide_version_id"]
+            isOneToOne: false
+            referencedRelation: "interview_guide_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          id: string
+          last_error: string | null
+          processed_at: string | null
+          received_at: string
+          stripe_created_at: string
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          id: string
+          last_error?: string | null
+          processed_at?: string | null
+          received_at?: string
+          stripe_created_at: string
+          type: string
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          id?: string
+          last_error?: string | null
+          processed_at?: string | null
+          received_at?: string
+          stripe_created_at?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean
+          canceled_at: string | null
+          created_at: string
+          current_period_end: string | null
+          current_period_start: string | null
+          id: string
+          latest_invoice_status: string | null
+          payment_failed_at: string | null
+          plan_type: string | null
+          response_limit: number | null
+          responses_used: number
+          status: string | null
+          stripe_customer_id: string | null
+          stripe_price_id: string | null
+          stripe_subscription_id: string | null
+          trial_end: string | null
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          latest_invoice_status?: string | null
+          payment_failed_at?: string | null
+          plan_type?: string | null
+          response_limit?: number | null
+          responses_used?: number
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_price_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_end?: string | null
+          updated_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean
+          canceled_at?: string | null
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          latest_invoice_status?: string | null
+          payment_failed_at?: string | null
+          plan_type?: string | null
+          response_limit?: number | null
+          responses_used?: number
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_price_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_end?: string | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_workspace_invitation: {
+        Args: { target_invitation_id: string }
+        Returns: string
+      }
+      check_interview_invite: {
+        Args: { target_project_id: string; invite_token?: string }
+        Returns: {
+          invite_id: string
+          reason: string
+        }[]
+      }
+      claim_stripe_event: {
+        Args: {
+          event_id: string
+          event_type: string
+          event_created_at: string
+          lease?: unknown
+        }
+        Returns: boolean
+      }
+      create_workspace: {
+        Args: { workspace_name: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+      }
+      get_interview_availability: {
+        Args: { target_project_id: string }
+        Returns: {
+          accepting: boolean
+          reason: string
+        }[]
+      }
+      get_interview_project: {
+        Args: { target_project_id: string }
+        Returns: {
+          id: string
+          title: string
+          product_idea_prompt: string
+          user_id: string
+          interview_guide: Json
+          current_guide_version_id: string
+          current_consent_version_id: string
+          screener: Json
+        }[]
+      }
+      get_workspace_members: {
+        Args: { target_workspace_id: string }
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string
+          role: string
+          joined_at: string
+        }[]
+      }
+      get_workspace_quota: {
+        Args: { target_workspace_id: string }
+        Returns: {
+          response_limit: number
+          responses_used: number
+          on_plan: boolean
+        }[]
+      }
+      has_project_role: {
+        Args: { target_project_id: string; min_role: string }
+        Returns: boolean
+      }
+      has_workspace_role: {
+        Args: { target_workspace_id: string; min_role: string }
+        Returns: boolean
+      }
+      invoke_insight_processing: {
+        Args: { target_interview_id: string }
+        Returns: number
+      }
+      is_current_consent_version: {
+        Args: { target_version_id: string }
+        Returns: boolean
+      }
+      mark_abandoned_interviews: {
+        Args: { timeout?: unknown }
+        Returns: number
+      }
+      project_creator: {
+        Args: { target_project_id: string }
+        Returns: string
+      }
+      publish_consent_version: {
+        Args: { target_project_id: string; new_notice: Json }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notice: Json
+          project_id: string
+          version: number
+        }
+      }
+      publish_guide_version: {
+        Args: { target_project_id: string; new_guide: Json }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          guide: Json
+          id: string
+          project_id: string
+          version: number
+        }
+      }
+      purge_expired_conversation_originals: {
+        Args: never
+        Returns: number
+      }
+      record_interviewer_request: {
+        Args: {
+          target_interview_id: string
+          ip_hash: string
+          window_seconds: number
+          interview_limit: number
+          ip_limit: number
+        }
+        Returns: string
+      }
+      retry_stalled_insight_jobs: {
+        Args: { max_attempts?: number }
+        Returns: number
+      }
+      screener_qualifies: {
+        Args: { screener: Json; answers: Json }
+        Returns: boolean
+      }
+      workspace_response_quota: {
+        Args: { target_workspace_id: string }
+        Returns: {
+          response_limit: number
+          responses_used: number
+          on_plan: boolean
+        }[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
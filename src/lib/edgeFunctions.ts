@@ -0,0 +1,20 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { isApiErrorBody, type ApiErrorCode } from '@shared/apiError'
+
+// An error response from one of our edge functions, with its message and code.
+export class FunctionCallError extends Error {
+  constructor(message: string, readonly code: ApiErrorCode) {
+    super(message)
+    this.name = 'FunctionCallError'
+  }
+}
+
+// supabase-js only reports "Edge Function returned a non-2xx status code";
+// the edge functions put the actual reason in an ApiErrorBody.
+export const toFunctionError = async (error: unknown): Promise<Error> => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null)
+    if (isApiErrorBody(body)) return new FunctionCallError(body.error, body.code)
+  }
+  return error instanceof Error ? error : new Error('Unknown error')
+}
@@ -0,0 +1,27 @@
+// Minimal server-sent events reader for streaming edge function responses.
+// Yields the JSON payload of every `data:` event until the stream closes.
+export async function* readEventStream<T>(response: Response): AsyncGenerator<T> {
+  const reader = response.body?.getReader()
+  if (!reader) throw new Error('Streaming response has no body')
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+      if (data) yield JSON.parse(data) as T
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
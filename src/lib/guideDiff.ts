@@ -0,0 +1,50 @@
+import { DEFAULT_MAX_PROBES, getGuideQuestions, type GuideQuestion, type InterviewGuide } from '@shared/interviewGuide'
+
+export type GuideQuestionField = 'text' | 'type' | 'followUpInstructions' | 'maxProbes'
+
+export type GuideQuestionDiff =
+  | { kind: 'added'; after: GuideQuestion }
+  | { kind: 'removed'; before: GuideQuestion }
+  | { kind: 'changed' | 'unchanged'; before: GuideQuestion; after: GuideQuestion; changedFields: GuideQuestionField[]; moved: boolean }
+
+const normalized = (question: GuideQuestion): Record<GuideQuestionField, string | number> => ({
+  text: question.text.trim(),
+  type: question.type,
+  followUpInstructions: question.followUpInstructions?.trim() ?? '',
+  maxProbes: question.maxProbes ?? DEFAULT_MAX_PROBES,
+})
+
+// Compares two guide versions question by question, matching on question id.
+// Entries follow the newer guide's order, with removed questions listed last.
+export function diffGuides(before: InterviewGuide | null | undefined, after: InterviewGuide | null | undefined): GuideQuestionDiff[] {
+  const beforeQuestions = getGuideQuestions(before)
+  const afterQuestions = getGuideQuestions(after)
+  const afterIds = new Set(afterQuestions.map(q => q.id))
+
+  // Only questions present in both versions count towards "moved", so adding
+  // or removing a question does not flag everything after it.
+  const beforeShared = beforeQuestions.filter(q => afterIds.has(q.id)).map(q => q.id)
+  const afterShared = afterQuestions.filter(q => beforeShared.includes(q.id)).map(q => q.id)
+
+  const entries: GuideQuestionDiff[] = afterQuestions.map(question => {
+    const previous = beforeQuestions.find(q => q.id === question.id)
+    if (!previous) return { kind: 'added', after: question }
+
+    const a = normalized(previous)
+    const b = normalized(question)
+    const changedFields = (Object.keys(a) as GuideQuestionField[]).filter(field => a[field] !== b[field])
+    const moved = beforeShared.indexOf(question.id) !== afterShared.indexOf(question.id)
+    return {
+      kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: previous,
+      after: question,
+      changedFields,
+      moved,
+    }
+  })
+
+  for (const question of beforeQuestions) {
+    if (!afterIds.has(question.id)) entries.push({ kind: 'removed', before: question })
+  }
+  return entries
+}
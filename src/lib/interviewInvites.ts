@@ -0,0 +1,118 @@
+import type { Tables, TablesInsert } from '@/lib/database.types'
+
+// Per-respondent invites, mirrored from the check_interview_invite database
+// function that decides whether an invite link can still start an interview.
+export type InviteRecord = Pick<
+  Tables<'interview_invites'>,
+  'id' | 'token' | 'name' | 'email' | 'segment' | 'expires_at' | 'single_use' | 'revoked_at' | 'created_at'
+> & {
+  interviews: { count: number }[];
+}
+
+export type InviteStatus = 'pending' | 'used' | 'expired' | 'revoked'
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  pending: 'Pending',
+  used: 'Used',
+  expired: 'Expired',
+  revoked: 'Revoked',
+}
+
+export const INVITE_STATUS_COLORS: Record<InviteStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  used: 'bg-green-100 text-green-800',
+  expired: 'bg-amber-100 text-amber-800',
+  revoked: 'bg-slate-100 text-slate-700',
+}
+
+export const inviteInterviewCount = (invite: InviteRecord) => invite.interviews?.[0]?.count ?? 0
+
+// Reusable invites stay pending after their first interview
+export const getInviteStatus = (invite: InviteRecord): InviteStatus => {
+  if (invite.revoked_at) return 'revoked'
+  if (invite.single_use && inviteInterviewCount(invite) > 0) return 'used'
+  if (invite.expires_at && new Date(invite.expires_at) <= new Date()) return 'expired'
+  return 'pending'
+}
+
+export const inviteLink = (projectId: string, token: string) =>
+  `${window.location.origin}/interview/${projectId}?invite=${token}`
+
+export type InviteDraft = Pick<TablesInsert<'interview_invites'>, 'name' | 'email' | 'segment'>
+
+// Keeps one upload to a single insert request
+export const MAX_CSV_INVITES = 500
+
+const CSV_FIELDS = ['name', 'email', 'segment'] as const
+
+// Splits CSV text into rows of cells, handling quoted cells with commas,
+// escaped quotes and line breaks.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(c => c.trim()))
+}
+
+// Reads respondents from a CSV with a header row naming any of the name,
+// email and segment columns, in any order. Rows without a name or email are
+// reported rather than silently dropped.
+export function parseInviteCsv(text: string): { invites: InviteDraft[]; errors: string[] } {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return { invites: [], errors: ['The file is empty.'] }
+
+  const columns = header.map(cell => cell.trim().toLowerCase())
+  const indexes = Object.fromEntries(CSV_FIELDS.map(field => [field, columns.indexOf(field)])) as Record<typeof CSV_FIELDS[number], number>
+  if (indexes.name === -1 && indexes.email === -1) {
+    return { invites: [], errors: ['The header row needs a "name" or "email" column.'] }
+  }
+
+  const invites: InviteDraft[] = []
+  const errors: string[] = []
+  rows.forEach((cells, index) => {
+    const value = (field: typeof CSV_FIELDS[number]) => (indexes[field] === -1 ? '' : cells[indexes[field]]?.trim() ?? '') || null
+    const invite = { name: value('name'), email: value('email'), segment: value('segment') }
+    if (!invite.name && !invite.email) {
+      errors.push(`Row ${index + 2}: no name or email.`)
+    } else {
+      invites.push(invite)
+    }
+  })
+
+  if (invites.length > MAX_CSV_INVITES) {
+    errors.push(`Only ${MAX_CSV_INVITES} invites can be imported at once; the file has ${invites.length}.`)
+  }
+  return { invites, errors }
+}
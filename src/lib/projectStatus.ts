@@ -0,0 +1,37 @@
+// Project lifecycle, mirrored from the projects_status_check constraint and
+// the enforce_project_status_transition trigger.
+export const PROJECT_STATUSES = ['draft', 'active', 'paused', 'completed'] as const
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number]
+
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ['active'],
+  active: ['paused', 'completed'],
+  paused: ['active', 'completed'],
+  completed: [],
+}
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  paused: 'Paused',
+  completed: 'Completed',
+}
+
+// Verb shown on the control that moves a project into each status
+export const PROJECT_STATUS_ACTIONS: Record<ProjectStatus, string> = {
+  draft: 'Move to draft',
+  active: 'Activate',
+  paused: 'Pause',
+  completed: 'Mark completed',
+}
+
+export const PROJECT_STATUS_COLORS: Record<ProjectStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-blue-100 text-blue-800',
+}
+
+export const isProjectStatus = (value: unknown): value is ProjectStatus =>
+  typeof value === 'string' && (PROJECT_STATUSES as readonly string[]).includes(value)
@@ -0,0 +1,13 @@
+// Response quota levels for a workspace's get_workspace_quota result. The
+// database stops accepting new interviews once responses_used reaches
+// response_limit.
+export const USAGE_WARNING_THRESHOLD = 0.8
+
+export type UsageLevel = 'ok' | 'warning' | 'exceeded'
+
+export const getUsageLevel = (used: number, limit: number | null): UsageLevel => {
+  // null is an unmetered plan; a limit of 0 includes no responses at all
+  if (limit === null) return 'ok'
+  if (used >= limit) return 'exceeded'
+  return used / limit >= USAGE_WARNING_THRESHOLD ? 'warning' : 'ok'
+}
@@ -1,10 +1,11 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   ArrowLeft,
   MessageSquare, 
@@ -16,48 +17,53 @@ import {
   Lightbulb,
   BarChart3,
   Download,
+  FileText,
+  Lock,
   Loader2 // Added Loader2
 } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
 import { supabase } from '@/lib/supabaseClient'
+import type { Tables } from '@/lib/database.types'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import { useEntitlements } from '@/hooks/use-entitlements'
+import { FEATURE_LABELS, PLANS, planForFeature } from '@shared/entitlements'
+import type {
+  ExecutiveSummary,
+  NotableQuote,
+  Objection,
+  PainPoint,
+  ProductIdea,
+  Sentiment,
+} from '@shared/insightSchema'
 
-// Interfaces for structured insights data from DB
-interface ExecutiveSummaryDB {
-  whatWeLearned?: string;
-  whatToBuildNext?: string;
-}
-interface PainPointDB {
-  point?: string;
-  severity?: string;
-}
-interface QuoteDB {
-  quote?: string;
-  speaker?: string;
-  sentiment?: string;
-}
-interface ObjectionDB {
-  objection?: string;
-  type?: string;
-}
-interface ProductIdeaDB {
-  idea?: string;
-  source?: string;
-}
+// Insights are validated against the shared schema before they are saved, but
+// rows written before validation existed may still have missing fields.
+type ExecutiveSummaryDB = Partial<ExecutiveSummary>;
+type PainPointDB = Partial<PainPoint>;
+type QuoteDB = Partial<NotableQuote>;
+type ObjectionDB = Partial<Objection>;
+type ProductIdeaDB = Partial<ProductIdea>;
 
-interface InsightRecord {
-  id: string;
-  project_id: string;
-  user_id: string;
-  summary_text: string | null;
+type InsightRecord = Omit<Tables<'insights'>, 'key_learnings' | 'pain_points' | 'quotes' | 'objections' | 'product_ideas'> & {
   key_learnings: ExecutiveSummaryDB | null; // This is executiveSummary in the function
   pain_points: PainPointDB[] | null;
   quotes: QuoteDB[] | null;
   objections: ObjectionDB[] | null;
   product_ideas: ProductIdeaDB[] | null;
-  created_at: string;
   projects?: { title: string } | null; // For joined project title
+  // Joined through the interview, so insights can be compared across guide versions
+  interviews?: { guide_version_id: string | null; interview_guide_versions: { version: number } | null } | null;
+}
+
+interface GuideVersionOption {
+  id: string;
+  label: string;
 }
 
+// Insights from interviews that predate guide versioning have no version id
+const UNVERSIONED = 'unversioned'
+
 // Interfaces for aggregated/displayed analytics
 interface AggregatedPainPoint {
   point: string;
@@ -70,6 +76,8 @@ interface AggregatedFeatureRequest {
   responses: number;
 }
 interface DisplayQuote extends QuoteDB {
+  project_id: string;
+  interview_id?: string | null;
   project_title?: string;
   respondent?: string; // Assuming speaker might be just 'User' from AI, add respondent later if available
 }
@@ -85,11 +93,17 @@ interface DisplayKeyInsight {
 export default function AnalyticsPage() {
   const navigate = useNavigate()
   const { user, session, loading: authLoading } = useAuth()
+  const { currentWorkspace } = useWorkspace()
+  const workspaceId = currentWorkspace?.id
+
+  const { can, loading: entitlementsLoading } = useEntitlements()
 
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
 
   const [allInsights, setAllInsights] = useState<InsightRecord[]>([])
+  const [guideVersionFilter, setGuideVersionFilter] = useState<string>('all')
   
   // Processed data for display
   const [executiveSummary, setExecutiveSummary] = useState<{ learned: string[]; build: string[] }>({ learned: [], build: [] })
@@ -109,25 +123,49 @@ export default function AnalyticsPage() {
       navigate('/');
       return;
     }
-    if (user) {
+    if (user && workspaceId) {
       fetchAndProcessInsights();
     }
-  }, [user, session, authLoading, navigate]);
+  }, [user, session, authLoading, navigate, workspaceId]);
+
+  const guideVersionOptions = useMemo(() => {
+    const options = new Map<string, GuideVersionOption>();
+    allInsights.forEach(i => {
+      const versionId = i.interviews?.guide_version_id;
+      const version = i.interviews?.interview_guide_versions?.version;
+      if (versionId && !options.has(versionId)) {
+        options.set(versionId, { id: versionId, label: `${i.projects?.title || 'Untitled project'} · v${version ?? '?'}` });
+      }
+    });
+    const sorted = [...options.values()].sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+    if (allInsights.some(i => !i.interviews?.guide_version_id)) {
+      sorted.push({ id: UNVERSIONED, label: 'Before guide versioning' });
+    }
+    return sorted;
+  }, [allInsights]);
+
+  const filteredInsights = useMemo(() => {
+    if (guideVersionFilter === 'all') return allInsights;
+    return allInsights.filter(i => (i.interviews?.guide_version_id ?? UNVERSIONED) === guideVersionFilter);
+  }, [allInsights, guideVersionFilter]);
+
+  useEffect(() => {
+    processDataForDisplay(filteredInsights);
+  }, [filteredInsights]);
 
   const fetchAndProcessInsights = async () => {
-    if (!user) return;
+    if (!user || !workspaceId) return;
     setIsLoading(true);
     setError(null);
     try {
       const { data, error: dbError } = await supabase
         .from('insights')
-        .select('*, projects(title)') // Fetch all fields and joined project title
-        .eq('user_id', user.id)
+        .select('*, projects!inner(title), interviews(guide_version_id, interview_guide_versions(version))') // Fetch all fields, joined project title and guide version
+        .eq('projects.workspace_id', workspaceId)
         .order('created_at', { ascending: false });
 
       if (dbError) throw dbError;
-      setAllInsights(data || []);
-      processDataForDisplay(data || []);
+      setAllInsights((data as unknown as InsightRecord[] | null) || []);
 
     } catch (err: unknown) { // Changed to unknown
       setError(err instanceof Error ? err.message : 'Failed to load analytics data.');
@@ -140,6 +178,11 @@ export default function AnalyticsPage() {
   const processDataForDisplay = (insights: InsightRecord[]) => {
     if (!insights || insights.length === 0) {
         setOverviewStats({ totalInterviews: 0, topPainPointText: "N/A", keyInsightText: "N/A" });
+        setExecutiveSummary({ learned: [], build: [] });
+        setTopPainPoints([]);
+        setTopFeatureRequests([]);
+        setDisplayQuotes([]);
+        setDisplayKeyInsights([]);
         return;
     }
 
@@ -192,6 +235,8 @@ export default function AnalyticsPage() {
         if (q.quote) {
           quotes.push({ 
             ...q, 
+            project_id: i.project_id,
+            interview_id: i.interview_id,
             project_title: i.projects?.title || 'Unknown Project',
             respondent: q.speaker === 'User' ? 'Interviewee' : q.speaker // Placeholder for respondent
           });
@@ -224,6 +269,30 @@ export default function AnalyticsPage() {
     });
   };
 
+  const handleExport = async () => {
+    if (!can('export')) {
+      alert(`${FEATURE_LABELS.export} is available on the ${PLANS[planForFeature('export')].name} plan. Upgrade from Manage Billing on your dashboard.`)
+      return
+    }
+    setExporting(true)
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke<string>('export-insights', { body: { workspaceId } })
+      if (fnError) throw await toFunctionError(fnError)
+
+      const url = URL.createObjectURL(new Blob([data ?? ''], { type: 'text/csv' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `insights-${new Date().toISOString().slice(0, 10)}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: unknown) {
+      console.error('Export error:', error)
+      alert(`Failed to export insights: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
   const getImpactColor = (impact: string) => {
     switch (impact) {
       case 'high': return 'bg-red-100 text-red-800'
@@ -233,6 +302,16 @@ export default function AnalyticsPage() {
     }
   }
 
+  const getSentimentColor = (sentiment: Sentiment) => {
+    switch (sentiment) {
+      case 'frustrated':
+      case 'negative': return 'bg-red-100 text-red-800'
+      case 'positive':
+      case 'excited': return 'bg-green-100 text-green-800'
+      default: return 'bg-yellow-100 text-yellow-800'
+    }
+  }
+
   const getInsightIcon = (type: DisplayKeyInsight['type']) => {
     switch (type) {
       case 'pain': return <AlertTriangle className="w-4 h-4" />
@@ -292,9 +371,18 @@ export default function AnalyticsPage() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="outline" size="sm" disabled> {/* Export coming soon */}
-                <Download className="w-4 h-4 mr-2" />
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || entitlementsLoading}>
+                {exporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : can('export') ? (
+                  <Download className="w-4 h-4 mr-2" />
+                ) : (
+                  <Lock className="w-4 h-4 mr-2" />
+                )}
                 Export Report
+                {!entitlementsLoading && !can('export') && (
+                  <Badge variant="secondary" className="ml-2">{PLANS[planForFeature('export')].name}</Badge>
+                )}
               </Button>
             </div>
           </div>
@@ -304,7 +392,22 @@ export default function AnalyticsPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-slate-900 mb-2">Interview Analytics</h1>
-          <p className="text-lg text-slate-600 mb-6">Key insights and patterns from your customer interviews</p>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+            <p className="text-lg text-slate-600">Key insights and patterns from your customer interviews</p>
+            {guideVersionOptions.length > 0 && (
+              <Select value={guideVersionFilter} onValueChange={setGuideVersionFilter}>
+                <SelectTrigger className="w-full md:w-[280px]">
+                  <SelectValue placeholder="All guide versions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All guide versions</SelectItem>
+                  {guideVersionOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
           
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
             <Card>
@@ -325,7 +428,7 @@ export default function AnalyticsPage() {
                 <MessageSquare className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{[...new Set(allInsights.map(i => i.project_id))].length}</div>
+                <div className="text-2xl font-bold">{[...new Set(filteredInsights.map(i => i.project_id))].length}</div>
                 <p className="text-xs text-muted-foreground">
                   With generated insights
                 </p>
@@ -503,18 +606,27 @@ export default function AnalyticsPage() {
                         </blockquote>
                         <div className="flex items-center justify-between">
                           <p className="text-sm text-slate-600">— {quote.respondent || 'Interviewee'} (Project: {quote.project_title})</p>
-                          {quote.sentiment && (
-                            <Badge 
-                              variant="secondary" 
-                              className={`text-xs ${
-                                quote.sentiment === 'frustrated' || quote.sentiment === 'negative' ? 'bg-red-100 text-red-800' :
-                                quote.sentiment === 'interested' || quote.sentiment === 'positive' ? 'bg-green-100 text-green-800' :
-                                'bg-yellow-100 text-yellow-800' // neutral or concerned
-                              }`}
-                            >
-                              {quote.sentiment}
-                            </Badge>
-                          )}
+                          <div className="flex items-center space-x-2">
+                            {/* Quotes saved before evidence linking have no message ids to jump to */}
+                            {quote.interview_id && quote.messageIds && quote.messageIds.length > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => navigate(`/projects/${quote.project_id}/interviews/${quote.interview_id}?highlight=${quote.messageIds!.join(',')}`)}
+                              >
+                                <FileText className="w-4 h-4 mr-1" />
+                                View in transcript
+                              </Button>
+                            )}
+                            {quote.sentiment && (
+                              <Badge 
+                                variant="secondary" 
+                                className={`text-xs ${getSentimentColor(quote.sentiment)}`}
+                              >
+                                {quote.sentiment}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))}
@@ -5,10 +5,10 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
-import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { 
   Plus, 
   MessageSquare, 
@@ -24,33 +24,49 @@ import {
   Loader2,
   AlertTriangle,
   Lightbulb,
-  CreditCard
+  CreditCard,
+  RotateCw,
+  ListChecks,
+  FileText,
+  FolderOpen
 } from 'lucide-react'
 
 import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
 import { supabase } from '@/lib/supabaseClient' 
-
-// Interface matching the projects table schema
-interface InterviewProject {
-  id: string; // UUID
-  user_id: string; // UUID, matches auth.users.id
-  title: string;
-  description?: string;
-  product_idea_prompt?: string;
-  interview_guide?: { questions?: Array<Record<string, unknown>>; [key: string]: unknown }; // More specific than any
-  status?: string; // e.g., draft, active, completed
-  max_responses?: number;
-  created_at?: string; // TIMESTAMPTZ
-  updated_at?: string; // TIMESTAMPTZ
+import type { Database, Json, Tables } from '@/lib/database.types'
+import GuideEditor from '@/components/GuideEditor'
+import GuideVersionHistory from '@/components/GuideVersionHistory'
+import ProjectStatusControl from '@/components/ProjectStatusControl'
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher'
+import WorkspaceMembersDialog from '@/components/WorkspaceMembersDialog'
+import WorkspaceInvitations from '@/components/WorkspaceInvitations'
+import { getUsageLevel } from '@/lib/usage'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import type { InterviewGuide } from '@shared/interviewGuide'
+import { PLANS, isPlanId } from '@shared/entitlements'
+import { DEFAULT_CONCLUSION_POLICY } from '@shared/conclusionPolicy'
+
+// A projects row; status is draft, active, paused or completed, see src/lib/projectStatus.ts
+type InterviewProject = Omit<Tables<'projects'>, 'interview_guide'> & {
+  interview_guide: InterviewGuide | null;
   // Frontend specific fields (not in DB, or calculated)
   responses_count?: number; // We'll need to fetch this separately or calculate
   last_activity_display?: string; // For display purposes
 }
 
+const EMPTY_NEW_PROJECT = {
+  title: '',
+  description: '',
+  productIdeaPrompt: '',
+  conclusionPolicy: DEFAULT_CONCLUSION_POLICY,
+}
+
 // Interface for recent insights
 interface RecentInsight {
   id: string;
   project_id: string;
+  interview_id: string | null;
   project_title?: string; // We'll join to get this
   summary_text?: string; // Or a specific key learning
   pain_points?: Array<{ point: string; severity: string }>;
@@ -60,36 +76,28 @@ interface RecentInsight {
 }
 
 // Define a specific type for Supabase insight query result.
-interface InsightFromSupabase {
-  id: string;
-  project_id: string;
-  summary_text: string | null;
+type InsightFromSupabase = Pick<Tables<'insights'>, 'id' | 'project_id' | 'interview_id' | 'summary_text' | 'created_at'> & {
   pain_points: Array<{ point: string; severity: string }> | null;
-  created_at: string;
   projects: { title: string } | null; // For the joined project title
 }
 
-// Interface for subscription data
-interface Subscription {
-  id: string;
-  user_id: string;
-  plan_type: string;
-  status: string;
-  response_limit: number | null;
-  responses_used: number;
-  current_period_end: string;
+// Completed interview whose server-side insight job failed
+type FailedInsightJob = Pick<Tables<'interviews'>, 'id' | 'project_id' | 'completed_at' | 'processing_error'> & {
+  projects: { title: string } | null;
 }
 
+type Subscription = Tables<'subscriptions'>
+
+type WorkspaceQuota = Database['public']['Functions']['get_workspace_quota']['Returns'][number]
+
 export default function Dashboard() {
   const navigate = useNavigate()
   const { user, session, signOut, loading: authLoading } = useAuth()
+  const { currentWorkspace, loading: workspacesLoading, can } = useWorkspace()
+  const workspaceId = currentWorkspace?.id
   
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
-  const [newProject, setNewProject] = useState({
-    title: '',
-    description: '',
-    productIdeaPrompt: '' 
-  })
+  const [newProject, setNewProject] = useState(EMPTY_NEW_PROJECT)
   const [projects, setProjects] = useState<InterviewProject[]>([])
   const [projectsLoading, setProjectsLoading] = useState(true)
   const [projectsError, setProjectsError] = useState<string | null>(null)
@@ -97,8 +105,13 @@ export default function Dashboard() {
   const [recentInsights, setRecentInsights] = useState<RecentInsight[]>([])
   const [insightsLoading, setInsightsLoading] = useState(true)
   const [insightsError, setInsightsError] = useState<string | null>(null)
+  const [failedInsightJobs, setFailedInsightJobs] = useState<FailedInsightJob[]>([])
+  const [rerunningJobId, setRerunningJobId] = useState<string | null>(null)
   const [subscription, setSubscription] = useState<Subscription | null>(null)
+  const [quota, setQuota] = useState<WorkspaceQuota | null>(null)
   const [billingLoading, setBillingLoading] = useState(false)
+  const [editingGuideProject, setEditingGuideProject] = useState<InterviewProject | null>(null)
+  const [membersOpen, setMembersOpen] = useState(false)
 
   useEffect(() => {
     if (!authLoading && !session) {
@@ -107,7 +120,7 @@ export default function Dashboard() {
     }
 
     const fetchData = async () => {
-      if (!user) return;
+      if (!user || !workspaceId) return;
       setProjectsLoading(true)
       setInsightsLoading(true)
       setProjectsError(null)
@@ -117,7 +130,7 @@ export default function Dashboard() {
         const { data: projectsData, error: projectsErr } = await supabase
           .from('projects')
           .select('*')
-          .eq('user_id', user.id)
+          .eq('workspace_id', workspaceId)
           .order('updated_at', { ascending: false }); // Order by updated_at for more relevant last activity
         
         if (projectsErr) throw projectsErr;
@@ -151,6 +164,7 @@ export default function Dashboard() {
               
               return {
                 ...p,
+                interview_guide: p.interview_guide as unknown as InterviewGuide | null,
                 responses_count: countError ? 0 : count || 0,
                 last_activity_display: lastActivity ? formatDistanceToNow(lastActivity, { addSuffix: true }) : 'N/A'
               };
@@ -159,16 +173,20 @@ export default function Dashboard() {
         }
         setProjects(fetchedProjectsWithCounts);
 
-        // Fetch subscription status
+        // Fetch the workspace's subscription status
         const { data: subscriptionData, error: subscriptionErr } = await supabase
           .from('subscriptions')
           .select('*')
-          .eq('user_id', user.id)
-          .single()
+          .eq('workspace_id', workspaceId)
+          .maybeSingle()
         
-        if (!subscriptionErr && subscriptionData) {
-          setSubscription(subscriptionData)
-        }
+        setSubscription(subscriptionErr ? null : subscriptionData)
+
+        // Same quota get_interview_availability enforces, free tier included
+        const { data: quotaData, error: quotaErr } = await supabase
+          .rpc('get_workspace_quota', { target_workspace_id: workspaceId })
+
+        setQuota(quotaErr ? null : quotaData?.[0] ?? null)
 
         // Fetch recent insights (joining with projects for title)
         const { data: insightsData, error: insightsErr } = await supabase
@@ -176,20 +194,22 @@ export default function Dashboard() {
           .select(`
             id,
             project_id,
+            interview_id,
             summary_text,
             pain_points,
             created_at,
-            projects (title) 
+            projects!inner (title) 
           `)
-          .eq('user_id', user.id)
+          .eq('projects.workspace_id', workspaceId)
           .order('created_at', { ascending: false })
           .limit(5)
 
         if (insightsErr) throw insightsErr;
         
-        const formattedInsights = (insightsData as InsightFromSupabase[] | null)?.map((insight) => ({
+        const formattedInsights = (insightsData as unknown as InsightFromSupabase[] | null)?.map((insight) => ({
           id: insight.id,
           project_id: insight.project_id,
+          interview_id: insight.interview_id,
           project_title: insight.projects?.title || 'Unknown Project',
           summary_text: insight.summary_text || (insight.pain_points?.[0]?.point ? `Pain point: ${insight.pain_points[0].point}` : 'No summary available'),
           created_at: insight.created_at,
@@ -197,6 +217,16 @@ export default function Dashboard() {
         })) || [];
         setRecentInsights(formattedInsights);
 
+        const { data: failedJobsData, error: failedJobsErr } = await supabase
+          .from('interviews')
+          .select('id, project_id, completed_at, processing_error, projects!inner (title)')
+          .eq('projects.workspace_id', workspaceId)
+          .eq('processing_status', 'failed')
+          .order('completed_at', { ascending: false })
+
+        if (failedJobsErr) throw failedJobsErr;
+        setFailedInsightJobs((failedJobsData as unknown as FailedInsightJob[] | null) || []);
+
       } catch (error: unknown) { 
         console.error("Error fetching dashboard data:", error)
         if (!projectsLoading) setProjectsError(error instanceof Error ? error.message : 'Failed to fetch projects.')
@@ -207,20 +237,26 @@ export default function Dashboard() {
       }
     }
 
-    if (user) {
+    if (user && workspaceId) {
       fetchData()
+    } else if (!workspacesLoading) {
+      setProjectsLoading(false)
+      setInsightsLoading(false)
     }
-  }, [user, session, authLoading, navigate])
+  }, [user, session, authLoading, navigate, workspaceId, workspacesLoading])
+
+  const canEdit = can('editor')
+  const canManageBilling = can('owner')
 
   const handleManageBilling = async () => {
-    if (!user) return
+    if (!user || !workspaceId) return
     setBillingLoading(true)
     try {
       const { data, error } = await supabase.functions.invoke('create-portal-session', {
-        body: { userId: user.id }
+        body: { workspaceId }
       })
 
-      if (error) throw error
+      if (error) throw await toFunctionError(error)
       if (data.error) throw new Error(data.error)
 
       // Redirect to Stripe Customer Portal
@@ -235,8 +271,27 @@ export default function Dashboard() {
     }
   }
 
+  const handleRerunInsights = async (interviewId: string) => {
+    setRerunningJobId(interviewId)
+    try {
+      const { data, error } = await supabase.functions.invoke('process-interview-insights', {
+        body: { interviewId }
+      })
+
+      if (error) throw await toFunctionError(error)
+      if (data.error) throw new Error(data.error)
+
+      setFailedInsightJobs(prev => prev.filter(job => job.id !== interviewId))
+    } catch (error: unknown) {
+      console.error('Insight re-run error:', error)
+      alert(`Failed to re-run insights: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRerunningJobId(null)
+    }
+  }
+
   const handleCreateProject = async () => {
-    if (!user || !newProject.title || !newProject.productIdeaPrompt) return;
+    if (!user || !workspaceId || !newProject.title || !newProject.productIdeaPrompt) return;
     setCreateProjectLoading(true)
     let createdProjectId: string | null = null;
     try {
@@ -244,12 +299,14 @@ export default function Dashboard() {
         .from('projects')
         .insert({
           user_id: user.id,
+          workspace_id: workspaceId,
           title: newProject.title,
           description: newProject.description,
           product_idea_prompt: newProject.productIdeaPrompt,
+          conclusion_policy: newProject.conclusionPolicy as unknown as Json,
           status: 'draft'
         })
-        .select('id, title, description, product_idea_prompt, status, user_id, created_at') 
+        .select('*')
         .single()
 
       if (projectInsertError) throw projectInsertError;
@@ -259,24 +316,24 @@ export default function Dashboard() {
 
       // Now, generate the interview guide
       let generatedGuide = null;
+      let generatedGuideVersionId: string | null = null;
       try {
         const { data: guideFnResponse, error: guideFnError } = await supabase.functions.invoke(
           'generate-interview-guide',
           { body: { productIdeaPrompt: newProject.productIdeaPrompt } }
         );
 
-        if (guideFnError) throw new Error(`Guide generation failed: ${guideFnError.message}`);
+        if (guideFnError) throw new Error(`Guide generation failed: ${(await toFunctionError(guideFnError)).message}`);
         if (guideFnResponse.error) throw new Error(`Guide generation error: ${guideFnResponse.error}`);
         
         generatedGuide = guideFnResponse; // This should be the JSON object like { questions: [...] }
 
-        // Update the project with the generated guide
-        const { error: updateError } = await supabase
-          .from('projects')
-          .update({ interview_guide: generatedGuide })
-          .eq('id', createdProjectId);
+        // Save the generated guide as the project's first version
+        const { data: guideVersion, error: publishError } = await supabase
+          .rpc('publish_guide_version', { target_project_id: createdProjectId, new_guide: generatedGuide });
 
-        if (updateError) throw new Error(`Failed to save interview guide: ${updateError.message}`);
+        if (publishError) throw new Error(`Failed to save interview guide: ${publishError.message}`);
+        generatedGuideVersionId = guideVersion.id;
         
       } catch (guideError: unknown) {
         console.warn("Could not generate or save interview guide:", guideError instanceof Error ? guideError.message : String(guideError));
@@ -288,14 +345,16 @@ export default function Dashboard() {
         ...projectData,
         id: createdProjectId,
         interview_guide: generatedGuide, // Add guide to local state too
+        current_guide_version_id: generatedGuideVersionId,
         responses_count: 0,
         last_activity_display: 'Just now'
       };
 
       setProjects(prev => [newProjectForState, ...prev]);
       setIsCreateDialogOpen(false);
-      setNewProject({ title: '', description: '', productIdeaPrompt: '' });
-      navigate(`/interview/${createdProjectId}`);
+      setNewProject(EMPTY_NEW_PROJECT);
+      // New projects start as drafts; the project page is where they get activated
+      navigate(`/projects/${createdProjectId}`);
 
     } catch (error: unknown) {
       console.error("Error creating project or guide:", error);
@@ -305,24 +364,6 @@ export default function Dashboard() {
     }
   }
 
-  const getStatusColor = (status?: string) => {
-    switch (status) {
-      case 'active': return 'bg-green-100 text-green-800'
-      case 'completed': return 'bg-blue-100 text-blue-800'
-      case 'draft': return 'bg-gray-100 text-gray-800'
-      default: return 'bg-yellow-100 text-yellow-800' // Default for unknown or new
-    }
-  }
-
-  const getStatusText = (status?: string) => {
-    switch (status) {
-      case 'active': return 'Active'
-      case 'completed': return 'Completed'
-      case 'draft': return 'Draft'
-      default: return 'New'
-    }
-  }
-
   const handleSignOut = async () => {
     await signOut()
     navigate('/')
@@ -338,6 +379,10 @@ export default function Dashboard() {
   }
 
   // Mock stats for now
+  const usageLevel = quota ? getUsageLevel(quota.responses_used, quota.response_limit) : 'ok';
+  const plan = quota?.on_plan ? subscription : null;
+  const now = new Date();
+  const freeQuotaResetsOn = new Date(now.getFullYear(), now.getMonth() + 1, 1).toLocaleDateString();
   const totalInterviews = projects.reduce((sum, p) => sum + (p.responses_count || 0), 0);
   const activeProjectsCount = projects.filter(p => p.status === 'active').length;
 
@@ -347,16 +392,19 @@ export default function Dashboard() {
       <header className="border-b bg-white/80 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
-            <div className="flex items-center space-x-2">
-              <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
-                <MessageSquare className="w-5 h-5 text-white" />
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                  <MessageSquare className="w-5 h-5 text-white" />
+                </div>
+                <span className="text-xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+                  InterviewAI
+                </span>
               </div>
-              <span className="text-xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
-                InterviewAI
-              </span>
+              <WorkspaceSwitcher onManageMembers={() => setMembersOpen(true)} />
             </div>
             <div className="flex items-center space-x-4">
-              {subscription && (
+              {subscription && canManageBilling && (
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -392,33 +440,80 @@ export default function Dashboard() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-slate-900 mb-2">Welcome back, {user?.email?.split('@')[0] || 'Founder'}!</h1>
           <p className="text-lg text-slate-600">Ready to validate your next big idea?</p>
-          {subscription && (
+          {quota && (
             <div className="mt-4 p-4 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-200">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-blue-800">
-                    {subscription.plan_type === 'starter' ? 'Starter Plan' : 'Pro Plan'} • {subscription.status === 'active' ? 'Active' : subscription.status}
+                    {plan
+                      ? `${isPlanId(plan.plan_type) ? `${PLANS[plan.plan_type].name} Plan` : plan.plan_type} • ${plan.status === 'active' ? 'Active' : plan.status}`
+                      : subscription?.status === 'canceled' ? 'Free Plan • Subscription canceled' : 'Free Plan'}
                   </p>
                   <p className="text-sm text-blue-600">
-                    {subscription.responses_used} / {subscription.response_limit || '∞'} responses used this month
+                    {quota.responses_used} / {quota.response_limit ?? '∞'} responses used this month
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="text-xs text-blue-600">
-                    Renews {new Date(subscription.current_period_end).toLocaleDateString()}
+                    {!plan
+                      ? `Resets ${freeQuotaResetsOn}`
+                      : plan.status === 'trialing' && plan.trial_end
+                        ? `Trial ends ${new Date(plan.trial_end).toLocaleDateString()}`
+                        : plan.cancel_at_period_end
+                          ? `Cancels ${new Date(plan.current_period_end!).toLocaleDateString()}`
+                          : `Renews ${new Date(plan.current_period_end!).toLocaleDateString()}`}
                   </p>
                 </div>
               </div>
-              {subscription.response_limit && (
+              {quota.response_limit !== null && (
                 <div className="mt-2 w-full bg-blue-200 rounded-full h-2">
                   <div 
-                    className="bg-gradient-to-r from-blue-600 to-indigo-600 h-2 rounded-full" 
-                    style={{ width: `${(subscription.responses_used / subscription.response_limit) * 100}%` }}
+                    className={`h-2 rounded-full ${usageLevel === 'ok' ? 'bg-gradient-to-r from-blue-600 to-indigo-600' : usageLevel === 'warning' ? 'bg-amber-500' : 'bg-red-600'}`}
+                    style={{ width: `${usageLevel === 'exceeded' ? 100 : Math.min(100, (quota.responses_used / quota.response_limit) * 100)}%` }}
                   ></div>
                 </div>
               )}
             </div>
           )}
+          <WorkspaceInvitations />
+          {subscription?.payment_failed_at && (
+            <div className="mt-4 p-4 rounded-lg border bg-red-50 border-red-200 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-600" />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-red-800">Your last payment failed</p>
+                <p className="text-sm text-red-700">Update your payment method to keep your subscription active.</p>
+              </div>
+              {canManageBilling && (
+                <Button variant="outline" size="sm" onClick={handleManageBilling} disabled={billingLoading}>
+                  <CreditCard className="w-4 h-4 mr-2" />
+                  Update Billing
+                </Button>
+              )}
+            </div>
+          )}
+          {quota && usageLevel !== 'ok' && (
+            <div className={`mt-4 p-4 rounded-lg border flex items-start space-x-3 ${usageLevel === 'exceeded' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+              <AlertTriangle className={`w-5 h-5 flex-shrink-0 ${usageLevel === 'exceeded' ? 'text-red-600' : 'text-amber-600'}`} />
+              <div className="flex-1">
+                <p className={`text-sm font-medium ${usageLevel === 'exceeded' ? 'text-red-800' : 'text-amber-800'}`}>
+                  {usageLevel === 'exceeded'
+                    ? "You've used all of this month's responses"
+                    : `You've used ${Math.round((quota.responses_used / quota.response_limit) * 100)}% of this month's responses`}
+                </p>
+                <p className={`text-sm ${usageLevel === 'exceeded' ? 'text-red-700' : 'text-amber-700'}`}>
+                  {usageLevel === 'exceeded'
+                    ? `Your interview links are paused for respondents until ${plan ? `your plan renews on ${new Date(plan.current_period_end!).toLocaleDateString()}` : freeQuotaResetsOn}. Upgrade to keep collecting responses.`
+                    : 'New interviews stop being accepted once you reach your limit.'}
+                </p>
+              </div>
+              {canManageBilling && (
+                <Button variant="outline" size="sm" onClick={plan ? handleManageBilling : () => navigate('/')} disabled={billingLoading}>
+                  <CreditCard className="w-4 h-4 mr-2" />
+                  Upgrade
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Quick Stats */}
@@ -462,68 +557,113 @@ export default function Dashboard() {
               <TabsTrigger value="insights">Recent Insights</TabsTrigger> 
             </TabsList>
             
-            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
-                  <Plus className="w-4 h-4 mr-2" />
-                  New Interview Project
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-[600px]">
-                <DialogHeader>
-                  <DialogTitle className="flex items-center">
-                    <Sparkles className="w-5 h-5 mr-2 text-blue-600" />
-                    Create New Interview Project
-                  </DialogTitle>
-                  <DialogDescription>
-                    Describe your product idea. We'll use this to tailor the AI interview.
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="grid gap-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="title">Project Title</Label>
-                    <Input
-                      id="title"
-                      placeholder="e.g., AI Writing Assistant for Students"
-                      value={newProject.title}
-                      onChange={(e) => setNewProject({...newProject, title: e.target.value})}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="description">Short Description (Optional)</Label>
-                    <Input
-                      id="description"
-                      placeholder="Brief description of what you're validating"
-                      value={newProject.description}
-                      onChange={(e) => setNewProject({...newProject, description: e.target.value})}
-                    />
+            {canEdit && (
+              <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Interview Project
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[600px]">
+                  <DialogHeader>
+                    <DialogTitle className="flex items-center">
+                      <Sparkles className="w-5 h-5 mr-2 text-blue-600" />
+                      Create New Interview Project
+                    </DialogTitle>
+                    <DialogDescription>
+                      Describe your product idea. We'll use this to tailor the AI interview.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="grid gap-4 py-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="title">Project Title</Label>
+                      <Input
+                        id="title"
+                        placeholder="e.g., AI Writing Assistant for Students"
+                        value={newProject.title}
+                        onChange={(e) => setNewProject({...newProject, title: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Short Description (Optional)</Label>
+                      <Input
+                        id="description"
+                        placeholder="Brief description of what you're validating"
+                        value={newProject.description}
+                        onChange={(e) => setNewProject({...newProject, description: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="productIdeaPrompt">Product Idea & Validation Goals</Label>
+                      <Textarea
+                        id="productIdeaPrompt"
+                        placeholder="Describe your product idea, target audience, key features, and what you want to validate... This will guide the AI interviewer."
+                        className="min-h-[120px]"
+                        value={newProject.productIdeaPrompt}
+                        onChange={(e) => setNewProject({...newProject, productIdeaPrompt: e.target.value})}
+                      />
+                    </div>
+                    <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+                      <p className="text-sm font-medium text-slate-900">When should interviews end?</p>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="maxTurns">Max respondent answers</Label>
+                          <Input
+                            id="maxTurns"
+                            type="number"
+                            min={1}
+                            placeholder="No limit"
+                            value={newProject.conclusionPolicy.maxTurns ?? ''}
+                            onChange={(e) => setNewProject({...newProject, conclusionPolicy: {...newProject.conclusionPolicy, maxTurns: e.target.value ? Number(e.target.value) : null}})}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="maxMinutes">Max minutes</Label>
+                          <Input
+                            id="maxMinutes"
+                            type="number"
+                            min={1}
+                            placeholder="No limit"
+                            value={newProject.conclusionPolicy.maxMinutes ?? ''}
+                            onChange={(e) => setNewProject({...newProject, conclusionPolicy: {...newProject.conclusionPolicy, maxMinutes: e.target.value ? Number(e.target.value) : null}})}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="endWhenGuideCompleted">End once every guide question is covered</Label>
+                        <Switch
+                          id="endWhenGuideCompleted"
+                          checked={newProject.conclusionPolicy.endWhenGuideCompleted}
+                          onCheckedChange={(checked) => setNewProject({...newProject, conclusionPolicy: {...newProject.conclusionPolicy, endWhenGuideCompleted: checked}})}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="honorAiSignal">Let the AI end the interview when the respondent is done</Label>
+                        <Switch
+                          id="honorAiSignal"
+                          checked={newProject.conclusionPolicy.honorAiSignal}
+                          onCheckedChange={(checked) => setNewProject({...newProject, conclusionPolicy: {...newProject.conclusionPolicy, honorAiSignal: checked}})}
+                        />
+                      </div>
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="productIdeaPrompt">Product Idea & Validation Goals</Label>
-                    <Textarea
-                      id="productIdeaPrompt"
-                      placeholder="Describe your product idea, target audience, key features, and what you want to validate... This will guide the AI interviewer."
-                      className="min-h-[120px]"
-                      value={newProject.productIdeaPrompt}
-                      onChange={(e) => setNewProject({...newProject, productIdeaPrompt: e.target.value})}
-                    />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)} disabled={createProjectLoading}>
+                      Cancel
+                    </Button>
+                    <Button 
+                      onClick={handleCreateProject}
+                      disabled={!newProject.title || !newProject.productIdeaPrompt || createProjectLoading}
+                      className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                    >
+                      {createProjectLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                      {createProjectLoading ? 'Creating Project...' : 'Create Project & Start'}
+                    </Button>
                   </div>
-                </div>
-                <div className="flex justify-end space-x-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)} disabled={createProjectLoading}>
-                    Cancel
-                  </Button>
-                  <Button 
-                    onClick={handleCreateProject}
-                    disabled={!newProject.title || !newProject.productIdeaPrompt || createProjectLoading}
-                    className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-                  >
-                    {createProjectLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
-                    {createProjectLoading ? 'Creating Project...' : 'Create Project & Start'}
-                  </Button>
-                </div>
-              </DialogContent>
-            </Dialog>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
 
           <TabsContent value="projects" className="space-y-6">
@@ -548,14 +688,18 @@ export default function Dashboard() {
               <Card className="text-center py-10">
                 <CardHeader>
                   <CardTitle>No projects yet!</CardTitle>
-                  <CardDescription>Click "New Interview Project" to get started.</CardDescription>
+                  <CardDescription>
+                    {canEdit ? 'Click "New Interview Project" to get started.' : "Projects created in this workspace will show up here."}
+                  </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <Button onClick={() => setIsCreateDialogOpen(true)} size="lg" className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
-                    <Plus className="w-5 h-5 mr-2" />
-                    Create Your First Project
-                  </Button>
-                </CardContent>
+                {canEdit && (
+                  <CardContent>
+                    <Button onClick={() => setIsCreateDialogOpen(true)} size="lg" className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
+                      <Plus className="w-5 h-5 mr-2" />
+                      Create Your First Project
+                    </Button>
+                  </CardContent>
+                )}
               </Card>
             )}
             {!projectsLoading && !projectsError && projects.length > 0 && (
@@ -566,14 +710,29 @@ export default function Dashboard() {
                       <div className="flex justify-between items-start">
                         <div className="space-y-2 flex-1 min-w-0">
                           <div className="flex items-center space-x-2">
-                            <CardTitle className="text-lg truncate" title={project.title}>{project.title}</CardTitle>
-                            <Badge className={getStatusColor(project.status)}>
-                              {getStatusText(project.status)}
-                            </Badge>
+                            <CardTitle
+                              className="text-lg truncate cursor-pointer hover:text-blue-600"
+                              title={project.title}
+                              onClick={() => navigate(`/projects/${project.id}`)}
+                            >
+                              {project.title}
+                            </CardTitle>
+                            <ProjectStatusControl
+                              projectId={project.id}
+                              status={project.status}
+                              onChanged={(status) => setProjects(prev => prev.map(p => p.id === project.id ? { ...p, status } : p))}
+                              readOnly={!canEdit}
+                            />
                           </div>
                           <CardDescription className="truncate" title={project.description || 'No description'}>{project.description || 'No description'}</CardDescription>
                         </div>
                         <div className="flex space-x-2 flex-shrink-0 ml-4">
+                          {canEdit && (
+                            <Button variant="outline" size="sm" onClick={() => setEditingGuideProject(project)}>
+                              <ListChecks className="w-4 h-4 mr-2" />
+                              Edit Guide
+                            </Button>
+                          )}
                           <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(`${window.location.origin}/interview/${project.id}`)}>
                             <Copy className="w-4 h-4 mr-2" />
                             Copy Link
@@ -612,11 +771,10 @@ export default function Dashboard() {
                           </Button>
                           <Button 
                             size="sm"
-                            onClick={() => navigate('/analytics')} 
-                            disabled 
+                            onClick={() => navigate(`/projects/${project.id}`)}
                           >
-                            <BarChart3 className="w-4 h-4 mr-2" />
-                            Insights
+                            <FolderOpen className="w-4 h-4 mr-2" />
+                            Interviews
                           </Button>
                         </div>
                       </div>
@@ -633,7 +791,82 @@ export default function Dashboard() {
             )}
           </TabsContent>
 
+          <Dialog open={editingGuideProject !== null} onOpenChange={(open) => { if (!open) setEditingGuideProject(null) }}>
+            <DialogContent className="sm:max-w-[800px]">
+              <DialogHeader>
+                <DialogTitle className="flex items-center">
+                  <ListChecks className="w-5 h-5 mr-2 text-blue-600" />
+                  Interview Guide
+                </DialogTitle>
+                <DialogDescription>
+                  {editingGuideProject?.title} — edit, reorder or regenerate the questions the AI interviewer walks through. Each save creates a new version; past interviews keep the version they ran against.
+                </DialogDescription>
+              </DialogHeader>
+              {editingGuideProject && (
+                <Tabs defaultValue="edit" className="space-y-4">
+                  <TabsList>
+                    <TabsTrigger value="edit">Edit</TabsTrigger>
+                    <TabsTrigger value="history">Version History</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="edit">
+                    <GuideEditor
+                      projectId={editingGuideProject.id}
+                      productIdeaPrompt={editingGuideProject.product_idea_prompt || editingGuideProject.title}
+                      guide={editingGuideProject.interview_guide}
+                      onCancel={() => setEditingGuideProject(null)}
+                      onSaved={(guide, versionId) => {
+                        setProjects(prev => prev.map(p => p.id === editingGuideProject.id
+                          ? { ...p, interview_guide: guide, current_guide_version_id: versionId }
+                          : p))
+                        setEditingGuideProject(null)
+                      }}
+                    />
+                  </TabsContent>
+                  <TabsContent value="history">
+                    <GuideVersionHistory
+                      projectId={editingGuideProject.id}
+                      currentVersionId={editingGuideProject.current_guide_version_id}
+                    />
+                  </TabsContent>
+                </Tabs>
+              )}
+            </DialogContent>
+          </Dialog>
+
           <TabsContent value="insights" className="space-y-6">
+            {failedInsightJobs.length > 0 && (
+              <Card className="border-red-200 bg-red-50">
+                <CardHeader>
+                  <CardTitle className="text-red-700 flex items-center">
+                    <AlertTriangle className="w-5 h-5 mr-2" />
+                    Insight processing failed
+                  </CardTitle>
+                  <CardDescription>These completed interviews could not be analyzed. Re-run them once the issue is resolved.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {failedInsightJobs.map((job) => (
+                    <div key={job.id} className="flex items-center justify-between gap-4 rounded-md bg-white p-3 border border-red-100">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 truncate">{job.projects?.title || 'Unknown Project'}</p>
+                        <p className="text-sm text-slate-600 truncate" title={job.processing_error || undefined}>
+                          {job.completed_at && `${new Date(job.completed_at).toLocaleString()} • `}
+                          {job.processing_error || 'Unknown error'}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRerunInsights(job.id)}
+                        disabled={!canEdit || rerunningJobId === job.id}
+                      >
+                        {rerunningJobId === job.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCw className="w-4 h-4 mr-2" />}
+                        Re-run
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
             {insightsLoading && (
               <div className="flex items-center justify-center py-10">
                 <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
@@ -678,7 +911,18 @@ export default function Dashboard() {
                         </div>
                       </div>
                     </CardHeader>
-                    {/* Optionally, add a CardContent here to show more details or a link to the full analytics */}
+                    {insight.interview_id && (
+                      <CardContent className="pt-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => navigate(`/projects/${insight.project_id}/interviews/${insight.interview_id}`)}
+                        >
+                          <FileText className="w-4 h-4 mr-2" />
+                          Read Transcript
+                        </Button>
+                      </CardContent>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -686,6 +930,8 @@ export default function Dashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      <WorkspaceMembersDialog open={membersOpen} onOpenChange={setMembersOpen} />
     </div>
   )
 }
\ No newline at end of file
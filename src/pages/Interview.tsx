@@ -1,26 +1,53 @@
 import { useState, useEffect, useRef } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { Send, MessageSquare, Sparkles, User, Bot, Loader2, AlertTriangle } from 'lucide-react'
+import { Send, MessageSquare, Sparkles, User, Bot, Loader2, AlertTriangle, Lock, Heart } from 'lucide-react'
+import RespondentConsent from '@/components/RespondentConsent'
+import RespondentScreener from '@/components/RespondentScreener'
 import { supabase } from '@/lib/supabaseClient'
+import type { Tables } from '@/lib/database.types'
+import { readEventStream } from '@/lib/eventStream'
+import { FunctionCallError, toFunctionError } from '@/lib/edgeFunctions'
+import { INTERVIEWER_LIMITS } from '@shared/interviewerLimits'
+import type { GuideProgress, InterviewGuide } from '@shared/interviewGuide'
+import type { ConsentNotice } from '@shared/consent'
+import { getScreenerQuestions, type Screener, type ScreenerAnswers } from '@shared/screener'
 
 interface Message {
   id: string;
   type: 'ai' | 'user';
   content: string;
   timestamp: string;
+  questionId?: string | null;
 }
 
-interface ProjectDetails {
-  id: string;
-  title: string;
-  product_idea_prompt: string | null;
-  user_id: string;
-  interview_guide?: { questions?: Array<{ id: string; text: string; type: string }> } | null;
+type ProjectDetails = Pick<Tables<'projects'>, 'id' | 'title' | 'product_idea_prompt' | 'user_id' | 'current_guide_version_id' | 'current_consent_version_id'> & {
+  interview_guide: InterviewGuide | null;
+  screener: Screener | null;
+}
+
+type ConsentVersion = Pick<Tables<'consent_versions'>, 'id' | 'version'> & {
+  notice: ConsentNotice;
+}
+
+type InterviewerStreamEvent =
+  | { type: 'delta'; content: string }
+  | {
+      type: 'done';
+      aiResponse: string;
+      guideProgress: GuideProgress | null;
+      conclusion: { concluded: boolean; reason: string | null };
+    }
+  | { type: 'error'; error: string };
+
+// Returned by ai-interviewer when it opens a new interview
+interface OpeningTurn {
+  message: Message;
+  guideProgress: GuideProgress;
 }
 
 interface FounderPersona {
@@ -28,14 +55,81 @@ interface FounderPersona {
   companyName: string | null;
 }
 
-interface ConversationRow {
-  sender_type: string;
-  content: string;
+interface ResumedSession {
+  interviewId: string;
+  startedAt: string | null;
+  messages: Message[];
+  guideProgress: GuideProgress | null;
+  // The guide version the interview started with, which may predate later edits
+  guide: InterviewGuide | null;
+  guideVersionId: string | null;
+}
+
+// Reasons returned by the get_interview_availability and check_interview_invite
+// database functions, plus respondents who don't pass the screener and
+// notices changed while the page was open
+type ClosedReason =
+  | 'not_found'
+  | 'draft'
+  | 'paused'
+  | 'completed'
+  | 'full'
+  | 'quota'
+  | 'invite_required'
+  | 'invite_invalid'
+  | 'invite_expired'
+  | 'invite_used'
+  | 'screened_out'
+  | 'consent_required'
+
+const CLOSED_MESSAGES: Record<ClosedReason, { title: string; description: string }> = {
+  not_found: { title: 'Interview not found', description: "This interview link doesn't point to an existing project." },
+  draft: { title: "This interview hasn't opened yet", description: 'The team is still preparing it. Please check back later.' },
+  paused: { title: 'This interview is paused', description: "The team has temporarily stopped collecting responses. Please check back later." },
+  completed: { title: 'This interview has closed', description: 'The team is no longer collecting responses. Thank you for your interest!' },
+  full: { title: 'This interview is full', description: 'The team has collected all the responses they need. Thank you for your interest!' },
+  // The founder's plan quota is used up; respondents don't need the billing details
+  quota: { title: 'This interview is paused', description: "The team isn't accepting new responses right now. Please check back later." },
+  invite_required: { title: 'This interview is invite only', description: 'Please use the personal link the team sent you.' },
+  invite_invalid: { title: "This invite link isn't valid", description: 'It may have been revoked. Please ask the team for a new link.' },
+  invite_expired: { title: 'This invite link has expired', description: 'Please ask the team for a new link.' },
+  invite_used: { title: 'This invite link has already been used', description: 'Each invite link starts one interview. Thank you for taking part!' },
+  screened_out: {
+    title: 'Thank you for your interest',
+    description: "We're looking for a specific group of people for this conversation, and it isn't the right fit this time. We really appreciate you taking the time to answer.",
+  },
+  consent_required: { title: 'The privacy notice has changed', description: 'Please reload the page to review the updated notice before starting.' },
+}
+
+// Resume tokens live in localStorage per project; a `?resume=` URL parameter
+// takes precedence so a session can be continued from another device.
+const resumeStorageKey = (projectId: string) => `interview-resume:${projectId}`
+
+// One visitor id per browser session, so reloads count as a single link open.
+const visitorStorageKey = (projectId: string) => `interview-visitor:${projectId}`
+
+const recordLinkOpen = async (projectId: string) => {
+  let visitorId = sessionStorage.getItem(visitorStorageKey(projectId))
+  if (!visitorId) {
+    visitorId = crypto.randomUUID()
+    sessionStorage.setItem(visitorStorageKey(projectId), visitorId)
+  }
+  const { error } = await supabase
+    .from('interview_link_opens')
+    .upsert(
+      { project_id: projectId, visitor_id: visitorId, referrer: document.referrer || null },
+      { onConflict: 'project_id,visitor_id', ignoreDuplicates: true }
+    )
+  if (error) console.warn("Could not record link open:", error.message)
 }
 
 export default function InterviewPage() {
   const { id: projectId } = useParams<{ id: string }>()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const urlResumeToken = searchParams.get('resume')
+  // Personal invite links attribute the interview to a respondent
+  const inviteToken = searchParams.get('invite')
 
   const [messages, setMessages] = useState<Message[]>([])
   const [currentMessage, setCurrentMessage] = useState('')
@@ -48,10 +142,12 @@ export default function InterviewPage() {
   const [founderPersona, setFounderPersona] = useState<FounderPersona | null>(null)
   const [currentInterviewId, setCurrentInterviewId] = useState<string | null>(null)
   const [interviewConcluded, setInterviewConcluded] = useState(false)
-
-  const [insightsLoading, setInsightsLoading] = useState(false)
-  const [insightsError, setInsightsError] = useState<string | null>(null)
-  const [insightsSuccess, setInsightsSuccess] = useState(false)
+  const [guideProgress, setGuideProgress] = useState<GuideProgress | null>(null)
+  const [closedReason, setClosedReason] = useState<ClosedReason | null>(null)
+  const [inviteId, setInviteId] = useState<string | null>(null)
+  const [showScreener, setShowScreener] = useState(false)
+  const [consent, setConsent] = useState<ConsentVersion | null>(null)
+  const [showConsent, setShowConsent] = useState(false)
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
@@ -72,22 +168,35 @@ export default function InterviewPage() {
       setIsLoading(true)
       setError(null)
       try {
+        // Respondents can't read projects directly, only the fields this page needs
         const { data: projectData, error: projectError } = await supabase
-          .from('projects')
-          .select('id, title, product_idea_prompt, user_id, interview_guide')
-          .eq('id', projectId)
-          .single()
+          .rpc('get_interview_project', { target_project_id: projectId })
+          .maybeSingle()
 
         if (projectError || !projectData) {
           throw new Error(projectError?.message || "Project not found or access denied.")
         }
-        setProjectDetails(projectData)
+        setProjectDetails(projectData as unknown as ProjectDetails)
+        recordLinkOpen(projectData.id)
+
+        if (projectData.current_consent_version_id) {
+          const { data: consentData, error: consentError } = await supabase
+            .from('consent_versions')
+            .select('id, version, notice')
+            .eq('id', projectData.current_consent_version_id)
+            .single()
+          if (consentError || !consentData) {
+            throw new Error(consentError?.message || "Could not load the privacy notice.")
+          }
+          setConsent(consentData as unknown as ConsentVersion)
+        }
 
         const { data: profileData, error: profileError } = await supabase
           .from('profiles')
           .select('full_name')
           .eq('id', projectData.user_id)
-        
+          .maybeSingle()
+
         if (profileError) {
           console.warn("Could not fetch founder profile, using defaults:", profileError.message)
           setFounderPersona({ name: 'Founder', companyName: projectData.title || 'Startup' })
@@ -98,6 +207,53 @@ export default function InterviewPage() {
           })
         }
 
+        let resumedSession = false
+        const resumeToken = urlResumeToken || localStorage.getItem(resumeStorageKey(projectId))
+        if (resumeToken) {
+          const { data: resumed, error: resumeError } = await supabase.functions.invoke<ResumedSession>(
+            'resume-interview',
+            { body: { projectId, resumeToken } }
+          )
+          if (resumeError || !resumed) {
+            console.warn("Could not resume interview, starting fresh:", resumeError?.message)
+            localStorage.removeItem(resumeStorageKey(projectId))
+          } else {
+            localStorage.setItem(resumeStorageKey(projectId), resumeToken)
+            setCurrentInterviewId(resumed.interviewId)
+            setMessages(resumed.messages)
+            setGuideProgress(resumed.guideProgress)
+            if (resumed.guide) {
+              setProjectDetails(prev => prev && { ...prev, interview_guide: resumed.guide, current_guide_version_id: resumed.guideVersionId })
+            }
+            setInterviewStarted(true)
+            resumedSession = true
+          }
+        }
+
+        // Sessions already in progress may finish; only new ones are refused.
+        if (!resumedSession) {
+          const { data: availability, error: availabilityError } = await supabase
+            .rpc('get_interview_availability', { target_project_id: projectId })
+            .single<{ accepting: boolean; reason: ClosedReason | null }>()
+          if (availabilityError) {
+            console.warn("Could not check interview availability:", availabilityError.message)
+          } else if (!availability.accepting) {
+            setClosedReason(availability.reason ?? 'completed')
+            return
+          }
+
+          const { data: invite, error: inviteError } = await supabase
+            .rpc('check_interview_invite', { target_project_id: projectId, invite_token: inviteToken ?? undefined })
+            .single<{ invite_id: string | null; reason: ClosedReason | null }>()
+          if (inviteError) {
+            console.warn("Could not check interview invite:", inviteError.message)
+          } else if (invite.reason) {
+            setClosedReason(invite.reason)
+          } else {
+            setInviteId(invite.invite_id)
+          }
+        }
+
       } catch (err: Error) {
         setError(err.message || "Failed to load interview details.")
         console.error("Error fetching interview details:", err)
@@ -106,47 +262,56 @@ export default function InterviewPage() {
       }
     }
     fetchDetails()
-  }, [projectId])
+  }, [projectId, urlResumeToken, inviteToken])
 
-  const startInterviewSession = async () => {
+  // Resolves to the reason the database refused the session, if it did
+  const startInterviewSession = async (screenerAnswers: ScreenerAnswers | null = null): Promise<ClosedReason | undefined> => {
     if (!projectDetails || !founderPersona) return
     setInterviewStarted(true)
     setIsTyping(true)
 
     try {
-      const { data: interviewEntry, error: interviewError } = await supabase
+      // Respondents can create interviews but not read them back, so the ids
+      // are generated here rather than returned from the insert.
+      const interviewEntry = { id: crypto.randomUUID(), resume_token: crypto.randomUUID() }
+      const { error: interviewError } = await supabase
         .from('interviews')
         .insert({
+          ...interviewEntry,
           project_id: projectDetails.id,
           user_id: projectDetails.user_id,
           status: 'started',
-          started_at: new Date().toISOString()
+          started_at: new Date().toISOString(),
+          guide_version_id: projectDetails.current_guide_version_id ?? null,
+          invite_id: inviteId,
+          screener_answers: screenerAnswers,
+          // Respondents only get here through the consent step
+          consent_version_id: consent?.id ?? null,
         })
-        .select('id')
-        .single()
 
-      if (interviewError || !interviewEntry) {
+      // The database refuses new sessions for closed projects, e.g. one that
+      // filled up while this page was open, respondents it screens out and
+      // projects that started requiring consent after the page loaded.
+      if (interviewError?.hint && interviewError.hint in CLOSED_MESSAGES) {
+        setClosedReason(interviewError.hint as ClosedReason)
+        setInterviewStarted(false)
+        return interviewError.hint as ClosedReason
+      }
+      if (interviewError) {
         throw new Error(interviewError?.message || "Could not start interview session.")
       }
+      localStorage.setItem(resumeStorageKey(projectDetails.id), interviewEntry.resume_token)
       setCurrentInterviewId(interviewEntry.id)
 
-      const firstQuestionFromGuide = projectDetails.interview_guide?.questions?.[0]?.text;
-      const firstQuestion = firstQuestionFromGuide || 
-        `Hi there! I'm ${founderPersona.name}, and I'm working on a new idea: ${projectDetails.title}. Thanks for taking the time to chat! Could you start by telling me a bit about your experiences related to this?`;
-      
-      const aiMessage: Message = {
-        id: Date.now().toString(),
-        type: 'ai',
-        content: firstQuestion,
-        timestamp: new Date().toISOString(),
-      }
-      setMessages([aiMessage])
+      // The interviewer asks the opening question and saves it server-side
+      const { data: opening, error: openingError } = await supabase.functions.invoke<OpeningTurn>(
+        'ai-interviewer',
+        { body: { interviewId: interviewEntry.id } }
+      )
+      if (openingError || !opening) throw await toFunctionError(openingError)
 
-      await supabase.from('conversations').insert({
-        interview_id: interviewEntry.id,
-        sender_type: 'ai',
-        content: firstQuestion,
-      })
+      setMessages([opening.message])
+      setGuideProgress(opening.guideProgress)
 
     } catch (err: Error) {
       setError(err.message || "Failed to initialize interview.")
@@ -157,6 +322,52 @@ export default function InterviewPage() {
     }
   }
 
+  // Welcome, then consent, then the screener, skipping the steps a project doesn't use
+  const continueToInterview = (consentAccepted: boolean) => {
+    if (!projectDetails) return
+    if (consent && !consentAccepted) {
+      setShowConsent(true)
+    } else if (getScreenerQuestions(projectDetails.screener).length > 0) {
+      setShowConsent(false)
+      setShowScreener(true)
+    } else {
+      startInterviewSession().then(() => setShowConsent(false))
+    }
+  }
+
+  // Respondents never see the qualify rules, so the database decides: qualified
+  // respondents go straight into the interview. Screened-out ones are recorded
+  // for the founder's funnel but never reach the interviewer.
+  const handleScreenerSubmit = async (answers: ScreenerAnswers) => {
+    if (!projectDetails) return
+    const refusal = await startInterviewSession(answers)
+    if (refusal !== 'screened_out') {
+      setShowScreener(false)
+      return
+    }
+
+    setIsTyping(true)
+    const { error: screenOutError } = await supabase
+      .from('interviews')
+      .insert({
+        project_id: projectDetails.id,
+        user_id: projectDetails.user_id,
+        status: 'screened_out',
+        guide_version_id: projectDetails.current_guide_version_id ?? null,
+        invite_id: inviteId,
+        screener_answers: answers,
+        consent_version_id: consent?.id ?? null,
+      })
+    setIsTyping(false)
+
+    if (screenOutError?.hint && screenOutError.hint in CLOSED_MESSAGES) {
+      setClosedReason(screenOutError.hint as ClosedReason)
+      return
+    }
+    if (screenOutError) console.warn("Could not record screener answers:", screenOutError.message)
+    setClosedReason('screened_out')
+  }
+
   const handleSendMessage = async () => {
     if (!currentMessage.trim() || !projectDetails || !founderPersona || !currentInterviewId || interviewConcluded) return
 
@@ -166,72 +377,71 @@ export default function InterviewPage() {
       type: 'user',
       content: userMsgContent,
       timestamp: new Date().toISOString(),
+      questionId: guideProgress?.currentQuestionId ?? null,
     }
     setMessages(prev => [...prev, userMessage])
     setCurrentMessage('')
     setIsTyping(true)
 
+    const aiMessageId = (Date.now() + 1).toString()
     try {
-      await supabase.from('conversations').insert({
-        interview_id: currentInterviewId,
-        sender_type: 'user',
-        content: userMsgContent,
-      })
-
-      const { data: aiResponseData, error: functionError } = await supabase.functions.invoke(
+      // The interviewer saves both messages and loads the history itself
+      const { data: aiStream, error: functionError } = await supabase.functions.invoke(
         'ai-interviewer',
-        {
-          body: {
-            productIdea: projectDetails.product_idea_prompt || projectDetails.title,
-            founderPersona: founderPersona,
-            conversationHistory: messages.slice(-10),
-            userResponse: userMsgContent,
-          },
-        }
+        { body: { interviewId: currentInterviewId, message: userMsgContent } }
       )
 
-      if (functionError) throw new Error(`AI Function Error: ${functionError.message}`)
-      if (aiResponseData.error) throw new Error(`AI Response Error: ${aiResponseData.error}`)
+      if (functionError) throw await toFunctionError(functionError)
+
+      // Render the reply as it streams in; the function saves it once complete.
+      let streamedContent = ''
+      let aiResponseData: Extract<InterviewerStreamEvent, { type: 'done' }> | null = null
+      for await (const event of readEventStream<InterviewerStreamEvent>(aiStream as Response)) {
+        if (event.type === 'error') throw new Error(`AI Response Error: ${event.error}`)
+        if (event.type === 'done') {
+          aiResponseData = event
+          continue
+        }
+        streamedContent += event.content
+        const partial = streamedContent
+        setIsTyping(false)
+        setMessages(prev => prev.some(m => m.id === aiMessageId)
+          ? prev.map(m => m.id === aiMessageId ? { ...m, content: partial } : m)
+          : [...prev, { id: aiMessageId, type: 'ai', content: partial, timestamp: new Date().toISOString() }])
+      }
+      if (!aiResponseData) throw new Error('AI response stream ended unexpectedly.')
 
       const aiMsgContent = aiResponseData.aiResponse || "Sorry, I had a glitch. Could you repeat that?"
+      const nextProgress: GuideProgress | null = aiResponseData.guideProgress ?? guideProgress
+      setGuideProgress(nextProgress)
       
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         type: 'ai',
         content: aiMsgContent,
         timestamp: new Date().toISOString(),
+        questionId: nextProgress?.currentQuestionId ?? null,
       }
-      setMessages(prev => [...prev, aiMessage])
+      setMessages(prev => [...prev.filter(m => m.id !== aiMessageId), aiMessage])
 
-      await supabase.from('conversations').insert({
-        interview_id: currentInterviewId,
-        sender_type: 'ai',
-        content: aiMsgContent,
-      })
-
-      const updatedMessages = [...messages, userMessage, aiMessage]
-      const userMessageCount = updatedMessages.filter(m => m.type === 'user').length
-      
-      console.log('User message count:', userMessageCount, 'AI response contains thank you:', aiMsgContent.toLowerCase().includes("thank you for your time"))
-      
-      if (userMessageCount >= 4 || aiMsgContent.toLowerCase().includes("thank you for your time")) {
-        console.log('Interview concluded, starting insights processing...')
+      // The ai-interviewer function applies the project's conclusion policy and
+      // marks the interview completed, which queues insight processing
+      if (aiResponseData.conclusion?.concluded) {
         setInterviewConcluded(true)
-        await supabase.from('interviews').update({ 
-          status: 'completed', 
-          completed_at: new Date().toISOString() 
-        }).eq('id', currentInterviewId)
+        localStorage.removeItem(resumeStorageKey(projectDetails.id))
       }
 
-    } catch (err: Error) {
+    } catch (err: unknown) {
       console.error("Error sending message or getting AI response:", err)
+      // Rate and length limits come with a message meant for the respondent
+      const limitHit = err instanceof FunctionCallError && (err.code === 'rate_limited' || err.code === 'payload_too_large')
       const errorAiMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         type: 'ai',
-        content: "I seem to be having some trouble connecting. Please try again in a moment.",
+        content: limitHit ? err.message : "I seem to be having some trouble connecting. Please try again in a moment.",
         timestamp: new Date().toISOString(),
       }
-      setMessages(prev => [...prev, errorAiMsg])
+      setMessages(prev => [...prev.filter(m => m.id !== aiMessageId), errorAiMsg])
     } finally {
       setIsTyping(false)
     }
@@ -244,98 +454,6 @@ export default function InterviewPage() {
     }
   }
 
-  useEffect(() => {
-    const processInsights = async () => {
-      if (!interviewConcluded || !currentInterviewId || !projectDetails || !founderPersona) {
-        console.log('Insights processing skipped:', { 
-          interviewConcluded, 
-          currentInterviewId: !!currentInterviewId, 
-          projectDetails: !!projectDetails, 
-          founderPersona: !!founderPersona 
-        })
-        return
-      }
-      
-      console.log('Starting insights processing for interview:', currentInterviewId)
-      setInsightsLoading(true)
-      setInsightsError(null)
-      setInsightsSuccess(false)
-      
-      try {
-        // Fetch full conversation
-        console.log('Fetching conversation data...')
-        const { data: convoData, error: convoError } = await supabase
-          .from('conversations')
-          .select('sender_type, content')
-          .eq('interview_id', currentInterviewId)
-          .order('id', { ascending: true })
-          
-        if (convoError || !convoData) {
-          console.error('Failed to fetch conversation:', convoError)
-          throw new Error(convoError?.message || 'Failed to fetch conversation')
-        }
-        
-        console.log('Conversation data fetched, messages:', convoData.length)
-        
-        const fullConversation = (convoData as ConversationRow[]).map((msg) => ({
-          type: msg.sender_type === 'ai' ? 'ai' : 'user',
-          content: msg.content
-        }))
-        
-        // Call Edge Function
-        console.log('Calling process-interview-insights function...')
-        const { data: insights, error: insightsFnError } = await supabase.functions.invoke('process-interview-insights', {
-          body: {
-            productIdea: projectDetails.product_idea_prompt || projectDetails.title,
-            founderPersona,
-            fullConversation
-          }
-        })
-        
-        if (insightsFnError) {
-          console.error('Insights function error:', insightsFnError)
-          throw new Error(insightsFnError.message)
-        }
-        if (insights.error) {
-          console.error('Insights response error:', insights.error)
-          throw new Error(insights.error)
-        }
-        
-        console.log('Insights generated successfully:', insights)
-        
-        // Save to insights table
-        console.log('Saving insights to database...')
-        const { error: saveError } = await supabase.from('insights').insert({
-          interview_id: currentInterviewId,
-          project_id: projectDetails.id,
-          user_id: projectDetails.user_id,
-          summary_text: insights.executiveSummary?.whatWeLearned || '',
-          key_learnings: insights.executiveSummary || {},
-          pain_points: insights.painPoints || [],
-          quotes: insights.notableQuotes || [],
-          objections: insights.objections || [],
-          product_ideas: insights.productIdeas || [],
-        })
-        
-        if (saveError) {
-          console.error('Failed to save insights:', saveError)
-          throw new Error(saveError.message)
-        }
-        
-        console.log('Insights saved successfully!')
-        setInsightsSuccess(true)
-      } catch (err: unknown) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to process insights'
-        console.error('Insights processing error:', errorMessage)
-        setInsightsError(errorMessage)
-        setInsightsSuccess(false)
-      } finally {
-        setInsightsLoading(false)
-      }
-    }
-    if (interviewConcluded) processInsights()
-  }, [interviewConcluded, currentInterviewId, projectDetails, founderPersona])
-
   if (isLoading) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-slate-50 via-white to-blue-50 p-4">
@@ -356,6 +474,75 @@ export default function InterviewPage() {
     )
   }
 
+  if (!interviewStarted && closedReason) {
+    const closed = CLOSED_MESSAGES[closedReason] ?? CLOSED_MESSAGES.completed
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 flex items-center justify-center p-4">
+        <Card className="max-w-lg w-full shadow-2xl text-center">
+          <CardHeader>
+            <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              {closedReason === 'screened_out' ? <Heart className="w-8 h-8 text-slate-500" /> : <Lock className="w-8 h-8 text-slate-500" />}
+            </div>
+            <CardTitle className="text-2xl mb-2">{closed.title}</CardTitle>
+            <p className="text-slate-600">{closed.description}</p>
+          </CardHeader>
+          <CardContent>
+            <Badge variant="secondary" className="px-3 py-1">
+              <Sparkles className="w-4 h-4 mr-2" />
+              {founderPersona.companyName}
+            </Badge>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!interviewStarted && showConsent && consent) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 flex items-center justify-center p-4">
+        <Card className="max-w-2xl w-full shadow-2xl">
+          <CardHeader className="text-center">
+            <Badge variant="secondary" className="px-3 py-1 mx-auto mb-2">
+              <Sparkles className="w-4 h-4 mr-2" />
+              {founderPersona.companyName}
+            </Badge>
+            <CardTitle className="text-2xl">Before we start</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RespondentConsent
+              notice={consent.notice}
+              submitting={isTyping}
+              onAccept={() => continueToInterview(true)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!interviewStarted && showScreener) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 flex items-center justify-center p-4">
+        <Card className="max-w-2xl w-full shadow-2xl">
+          <CardHeader className="text-center">
+            <Badge variant="secondary" className="px-3 py-1 mx-auto mb-2">
+              <Sparkles className="w-4 h-4 mr-2" />
+              {founderPersona.companyName}
+            </Badge>
+            <CardTitle className="text-2xl">{projectDetails.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RespondentScreener
+              questions={getScreenerQuestions(projectDetails.screener)}
+              submitting={isTyping}
+              onSubmit={handleScreenerSubmit}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!interviewStarted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50 flex items-center justify-center p-4">
@@ -411,13 +598,13 @@ export default function InterviewPage() {
                 </li>
                 <li className="flex items-center">
                   <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                  Your insights are anonymous and help shape our product
+                  {consent ? "You'll see how your answers are used before we begin" : 'Your insights help shape our product'}
                 </li>
               </ul>
             </div>
 
             <Button 
-              onClick={startInterviewSession}
+              onClick={() => continueToInterview(false)}
               className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 py-6 text-lg"
               disabled={isTyping}
             >
@@ -495,20 +682,7 @@ export default function InterviewPage() {
             {interviewConcluded ? (
               <div className="text-center py-3">
                 <p className="text-slate-700 font-medium">This interview has concluded. Thank you for your participation!</p>
-                <p className="text-sm text-slate-500 mt-1">Your insights are valuable.</p>
-                {insightsLoading && (
-                  <div className="flex flex-col items-center mt-4">
-                    <Loader2 className="h-6 w-6 animate-spin text-blue-600 mb-2" />
-                    <span className="text-blue-700">Processing interview insights...</span>
-                  </div>
-                )}
-                {insightsError && (
-                  <div className="mt-4 text-red-600 text-sm">{insightsError}</div>
-                )}
-                {insightsSuccess && (
-                  <div className="mt-4 text-green-700 text-sm font-medium">Interview insights have been generated and saved!</div>
-                )}
-                {/* Optionally show a summary preview here */}
+                <p className="text-sm text-slate-500 mt-1">Your insights are valuable. You can close this window now.</p>
               </div>
             ) : (
               <div className="flex space-x-4">
@@ -517,6 +691,7 @@ export default function InterviewPage() {
                   value={currentMessage}
                   onChange={(e) => setCurrentMessage(e.target.value)}
                   onKeyPress={handleKeyPress}
+                  maxLength={INTERVIEWER_LIMITS.maxMessageLength}
                   className="flex-1"
                   disabled={isTyping || interviewConcluded}
                 />
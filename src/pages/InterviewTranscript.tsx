@@ -0,0 +1,524 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  Eye,
+  FileText,
+  Lightbulb,
+  ListChecks,
+  Loader2,
+  MessageSquare,
+  Quote,
+  ShieldCheck,
+  User,
+} from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { supabase } from '@/lib/supabaseClient'
+import type { Tables } from '@/lib/database.types'
+import type { ExecutiveSummary, NotableQuote, Objection, PainPoint, ProductIdea } from '@shared/insightSchema'
+import { GUARDRAIL_FLAG_LABELS, parseGuardrailFlags } from '@shared/guardrails'
+import { REDACTION_KIND_LABELS, parseRedactions } from '@shared/redaction'
+import { hasWorkspaceRole } from '@shared/workspaces'
+import { getConsentCheckboxes, isValidPrivacyPolicyUrl, type ConsentNotice } from '@shared/consent'
+import { answerQualifies, formatScreenerAnswer, getScreenerQuestions, type Screener, type ScreenerAnswers } from '@shared/screener'
+
+type ProjectSummary = Pick<Tables<'projects'>, 'id' | 'title' | 'workspace_id'> & {
+  screener: Screener | null;
+}
+
+type InterviewSummary = Pick<
+  Tables<'interviews'>,
+  'id' | 'status' | 'started_at' | 'completed_at' | 'conclusion_reason' | 'processing_status' | 'processing_error' | 'consent_accepted_at'
+> & {
+  screener_answers: ScreenerAnswers | null;
+  // The exact notice wording the respondent accepted
+  consent_versions: (Pick<Tables<'consent_versions'>, 'version'> & { notice: ConsentNotice }) | null;
+}
+
+// guardrail_flags are set by the interviewer; flagged messages aren't used as evidence.
+// content is already redacted; redactions lists what was removed.
+type TranscriptMessage = Pick<Tables<'conversations'>, 'id' | 'content' | 'created_at' | 'guardrail_flags' | 'redactions'> & {
+  sender_type: 'ai' | 'user';
+}
+
+// Rows saved before schema validation or evidence linking may be missing fields
+type InterviewInsight = Pick<Tables<'insights'>, 'id'> & {
+  key_learnings: Partial<ExecutiveSummary> | null;
+  pain_points: Partial<PainPoint>[] | null;
+  quotes: Partial<NotableQuote>[] | null;
+  objections: Partial<Objection>[] | null;
+  product_ideas: Partial<ProductIdea>[] | null;
+}
+
+// `?highlight=12,13` marks the transcript messages an insight was drawn from
+const parseHighlight = (value: string | null) =>
+  (value || '').split(',').map(Number).filter(id => Number.isInteger(id) && id > 0)
+
+const formatDateTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—'
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  started: 'bg-blue-100 text-blue-800',
+  abandoned: 'bg-slate-100 text-slate-700',
+  screened_out: 'bg-amber-100 text-amber-800',
+}
+
+export default function InterviewTranscriptPage() {
+  const { projectId, interviewId } = useParams<{ projectId: string; interviewId: string }>()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { user, session, loading: authLoading } = useAuth()
+  const { workspaces, loading: workspacesLoading } = useWorkspace()
+
+  const [project, setProject] = useState<ProjectSummary | null>(null)
+  const [interviews, setInterviews] = useState<InterviewSummary[]>([])
+  const [messages, setMessages] = useState<TranscriptMessage[]>([])
+  const [insight, setInsight] = useState<InterviewInsight | null>(null)
+  // Revealed originals by message id; null once we know it's no longer kept
+  const [originals, setOriginals] = useState<Record<number, string | null>>({})
+  const [revealingId, setRevealingId] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const highlightIds = useMemo(() => parseHighlight(searchParams.get('highlight')), [searchParams])
+  const highlightRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!authLoading && !session) {
+      navigate('/')
+    }
+  }, [authLoading, session, navigate])
+
+  // The project and its interview list only change with the project
+  useEffect(() => {
+    if (!user || !projectId || workspacesLoading) return
+    const fetchProject = async () => {
+      const [{ data: projectData, error: projectError }, { data: interviewsData, error: interviewsError }] = await Promise.all([
+        supabase.from('projects').select('id, title, workspace_id, screener').eq('id', projectId).in('workspace_id', workspaces.map(w => w.id)).maybeSingle(),
+        supabase
+          .from('interviews')
+          .select('id, status, started_at, completed_at, conclusion_reason, processing_status, processing_error, screener_answers, consent_accepted_at, consent_versions (version, notice)')
+          .eq('project_id', projectId)
+          .order('started_at', { ascending: true }),
+      ])
+      if (projectError || !projectData) {
+        setError(projectError?.message || 'Project not found or access denied.')
+        setIsLoading(false)
+        return
+      }
+      if (interviewsError) {
+        setError(interviewsError.message)
+        setIsLoading(false)
+        return
+      }
+      setProject({ ...projectData, screener: projectData.screener as unknown as Screener | null })
+      setInterviews((interviewsData as unknown as InterviewSummary[] | null) || [])
+    }
+    fetchProject()
+  }, [user, projectId, workspaces, workspacesLoading])
+
+  useEffect(() => {
+    if (!user || !interviewId) return
+    const fetchTranscript = async () => {
+      setIsLoading(true)
+      setError(null)
+      setOriginals({})
+      try {
+        const [{ data: conversationData, error: conversationError }, { data: insightData, error: insightError }] = await Promise.all([
+          supabase
+            .from('conversations')
+            .select('id, sender_type, content, created_at, guardrail_flags, redactions')
+            .eq('interview_id', interviewId)
+            .order('id', { ascending: true }),
+          supabase
+            .from('insights')
+            .select('id, key_learnings, pain_points, quotes, objections, product_ideas')
+            .eq('interview_id', interviewId)
+            .maybeSingle(),
+        ])
+        if (conversationError) throw conversationError
+        if (insightError) throw insightError
+        setMessages((conversationData as TranscriptMessage[] | null) || [])
+        setInsight(insightData as unknown as InterviewInsight | null)
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Failed to load the transcript.')
+        console.error('Transcript fetch error:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchTranscript()
+  }, [user, interviewId])
+
+  useEffect(() => {
+    if (!isLoading) highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [isLoading, highlightIds])
+
+  const currentIndex = interviews.findIndex(i => i.id === interviewId)
+  const currentInterview = interviews[currentIndex]
+  const previousInterview = currentIndex > 0 ? interviews[currentIndex - 1] : null
+  const nextInterview = currentIndex >= 0 ? interviews[currentIndex + 1] ?? null : null
+  const firstHighlighted = messages.find(m => highlightIds.includes(m.id))?.id
+
+  // Only workspace owners can read the unredacted text
+  const canRevealOriginals = hasWorkspaceRole(workspaces.find(w => w.id === project?.workspace_id)?.role, 'owner')
+
+  const toggleOriginal = async (messageId: number) => {
+    if (messageId in originals) {
+      setOriginals(prev => {
+        const next = { ...prev }
+        delete next[messageId]
+        return next
+      })
+      return
+    }
+    setRevealingId(messageId)
+    const { data, error: originalError } = await supabase
+      .from('conversation_originals')
+      .select('content')
+      .eq('conversation_id', messageId)
+      .maybeSingle()
+    setRevealingId(null)
+    if (originalError) {
+      console.error('Error fetching original message:', originalError)
+      alert(`Failed to load the original message: ${originalError.message}`)
+      return
+    }
+    setOriginals(prev => ({ ...prev, [messageId]: data?.content ?? null }))
+  }
+
+  const goToInterview = (id: string) => navigate(`/projects/${projectId}/interviews/${id}`)
+
+  const highlight = (messageIds: number[] | undefined) => {
+    if (!messageIds || messageIds.length === 0) return
+    setSearchParams({ highlight: messageIds.join(',') }, { replace: true })
+  }
+
+  // Evidence-linked items are clickable and highlight the messages they cite
+  const evidenceProps = (messageIds: number[] | undefined) => messageIds && messageIds.length > 0
+    ? { role: 'button', tabIndex: 0, onClick: () => highlight(messageIds), className: 'cursor-pointer rounded-md p-2 -mx-2 hover:bg-slate-50' }
+    : { className: 'p-2 -mx-2' }
+
+  if (authLoading || (isLoading && messages.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-white to-blue-50">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <p className="ml-2 text-slate-700">Loading transcript...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center p-4">
+        <AlertTriangle className="h-12 w-12 text-red-500 mb-4" />
+        <h2 className="text-2xl font-semibold text-red-700 mb-2">Error Loading Transcript</h2>
+        <p className="text-slate-600 mb-6">{error}</p>
+        <Button onClick={() => navigate('/dashboard')} variant="outline">Back to Dashboard</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
+      <header className="border-b bg-white/80 backdrop-blur-md sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4 min-w-0">
+              <Button variant="ghost" size="sm" onClick={() => navigate(`/projects/${projectId}`)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Project
+              </Button>
+              <div className="h-6 w-px bg-slate-300"></div>
+              <div className="flex items-center space-x-2 min-w-0">
+                <FileText className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                <span className="text-xl font-bold text-slate-900 truncate">{project?.title}</span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!previousInterview}
+                onClick={() => previousInterview && goToInterview(previousInterview.id)}
+                aria-label="Previous interview"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Select value={interviewId} onValueChange={goToInterview}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Select interview" />
+                </SelectTrigger>
+                <SelectContent>
+                  {interviews.map((interview, index) => (
+                    <SelectItem key={interview.id} value={interview.id}>
+                      #{index + 1} · {interview.started_at ? new Date(interview.started_at).toLocaleDateString() : 'Not started'} · {interview.status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!nextInterview}
+                onClick={() => nextInterview && goToInterview(nextInterview.id)}
+                aria-label="Next interview"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">
+            Interview {currentIndex >= 0 ? `#${currentIndex + 1}` : ''}
+          </h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+            {currentInterview && (
+              <Badge className={STATUS_STYLES[currentInterview.status] || 'bg-slate-100 text-slate-700'}>{currentInterview.status}</Badge>
+            )}
+            <span>Started {formatDateTime(currentInterview?.started_at ?? null)}</span>
+            {currentInterview?.completed_at && <span>• Completed {formatDateTime(currentInterview.completed_at)}</span>}
+            {currentInterview?.conclusion_reason && <span>• Ended by {currentInterview.conclusion_reason.replace(/_/g, ' ')}</span>}
+            {currentInterview?.consent_versions && (
+              <span>• Consent v{currentInterview.consent_versions.version} accepted {formatDateTime(currentInterview.consent_accepted_at)}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+                Transcript
+              </CardTitle>
+              <CardDescription>{messages.length} messages</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {messages.length === 0 && <p className="text-slate-500 italic">This interview has no messages.</p>}
+              {messages.map(message => {
+                const highlighted = highlightIds.includes(message.id)
+                return (
+                  <div
+                    key={message.id}
+                    ref={message.id === firstHighlighted ? highlightRef : undefined}
+                    className={`flex items-start space-x-3 rounded-lg p-3 ${highlighted ? 'bg-yellow-50 ring-2 ring-yellow-300' : ''}`}
+                  >
+                    <Avatar className="w-8 h-8 flex-shrink-0">
+                      <AvatarFallback className={message.sender_type === 'ai' ? 'bg-blue-600 text-white' : 'bg-slate-600 text-white'}>
+                        {message.sender_type === 'ai' ? <Bot className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs text-slate-500 mb-1">
+                        {message.sender_type === 'ai' ? 'Interviewer' : 'Respondent'} · {formatDateTime(message.created_at)}
+                        {parseGuardrailFlags(message.guardrail_flags).map(flag => (
+                          <Badge key={flag} variant="outline" className="ml-2 text-xs border-amber-300 text-amber-700">
+                            {GUARDRAIL_FLAG_LABELS[flag]}
+                          </Badge>
+                        ))}
+                        {parseRedactions(message.redactions).map(kind => (
+                          <Badge key={kind} variant="outline" className="ml-2 text-xs border-slate-300 text-slate-600">
+                            {REDACTION_KIND_LABELS[kind]} redacted
+                          </Badge>
+                        ))}
+                        {canRevealOriginals && message.redactions.length > 0 && (
+                          <button
+                            type="button"
+                            className="ml-2 inline-flex items-center text-xs text-blue-600 hover:underline disabled:opacity-50"
+                            onClick={() => toggleOriginal(message.id)}
+                            disabled={revealingId === message.id}
+                          >
+                            <Eye className="w-3 h-3 mr-1" />
+                            {message.id in originals ? 'Hide original' : 'Show original'}
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-sm text-slate-800 whitespace-pre-wrap">{message.content}</p>
+                      {message.id in originals && (
+                        originals[message.id] === null ? (
+                          <p className="mt-2 text-xs text-slate-500 italic">The original is no longer kept under this project's retention setting.</p>
+                        ) : (
+                          <p className="mt-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-slate-800 whitespace-pre-wrap">
+                            {originals[message.id]}
+                          </p>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {currentInterview?.consent_versions && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <ShieldCheck className="w-5 h-5 mr-2 text-blue-600" />
+                    Consent
+                  </CardTitle>
+                  <CardDescription>
+                    Version {currentInterview.consent_versions.version} · accepted {formatDateTime(currentInterview.consent_accepted_at)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <p className="text-slate-700 whitespace-pre-wrap">{currentInterview.consent_versions.notice.text}</p>
+                  <ul className="list-disc pl-5 text-slate-700 space-y-1">
+                    {getConsentCheckboxes(currentInterview.consent_versions.notice).map(checkbox => <li key={checkbox.id}>{checkbox.label}</li>)}
+                  </ul>
+                  {isValidPrivacyPolicyUrl(currentInterview.consent_versions.notice.privacyPolicyUrl) && (
+                    <a
+                      href={currentInterview.consent_versions.notice.privacyPolicyUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      Privacy policy
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+            {currentInterview?.screener_answers && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <ListChecks className="w-5 h-5 mr-2 text-blue-600" />
+                    Screener
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {getScreenerQuestions(project?.screener).map(question => {
+                    const answer = currentInterview.screener_answers?.[question.id]
+                    return (
+                      <div key={question.id} className="flex justify-between gap-4">
+                        <span className="text-slate-600">{question.text}</span>
+                        <span className={`font-medium whitespace-nowrap ${answer !== undefined && !answerQualifies(question, answer) ? 'text-amber-700' : 'text-slate-900'}`}>
+                          {formatScreenerAnswer(answer)}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+            {!insight ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Lightbulb className="w-5 h-5 mr-2 text-yellow-500" />
+                    Insights
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-slate-600">
+                    {currentInterview?.processing_status === 'failed'
+                      ? `Insight processing failed: ${currentInterview.processing_error || 'unknown error'}`
+                      : currentInterview?.status === 'completed'
+                        ? 'Insights are being generated for this interview.'
+                        : 'Insights are generated once the interview is completed.'}
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Lightbulb className="w-5 h-5 mr-2 text-yellow-500" />
+                      Summary
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm text-slate-700">
+                    <div>
+                      <p className="font-medium text-slate-900">What we learned</p>
+                      <p>{insight.key_learnings?.whatWeLearned || '—'}</p>
+                    </div>
+                    <div>
+                      <p className="font-medium text-slate-900">What to build next</p>
+                      <p>{insight.key_learnings?.whatToBuildNext || '—'}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <AlertTriangle className="w-5 h-5 mr-2 text-red-600" />
+                      Pain Points
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    {(insight.pain_points || []).length === 0 && <p className="text-slate-500 italic">None identified.</p>}
+                    {(insight.pain_points || []).map((pain, index) => (
+                      <div key={index} {...evidenceProps(pain.messageIds)}>
+                        <p className="text-slate-800">{pain.point}</p>
+                        {pain.severity && <Badge variant="outline" className="mt-1 text-xs">{pain.severity}</Badge>}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <Quote className="w-5 h-5 mr-2 text-indigo-600" />
+                      Quotes
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    {(insight.quotes || []).length === 0 && <p className="text-slate-500 italic">None identified.</p>}
+                    {(insight.quotes || []).map((quote, index) => (
+                      <div key={index} {...evidenceProps(quote.messageIds)}>
+                        <blockquote className="italic text-slate-700">"{quote.quote}"</blockquote>
+                        {quote.sentiment && <Badge variant="secondary" className="mt-1 text-xs">{quote.sentiment}</Badge>}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Objections & Ideas</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    {(insight.objections || []).map((objection, index) => (
+                      <div key={`objection-${index}`} {...evidenceProps(objection.messageIds)}>
+                        <p className="text-slate-800">{objection.objection}</p>
+                        {objection.type && <Badge variant="outline" className="mt-1 text-xs">{objection.type.replace(/_/g, ' ')}</Badge>}
+                      </div>
+                    ))}
+                    {(insight.product_ideas || []).map((idea, index) => (
+                      <div key={`idea-${index}`} className="p-2 -mx-2">
+                        <p className="text-slate-800"><span className="font-medium">Idea:</span> {idea.idea}</p>
+                      </div>
+                    ))}
+                    {(insight.objections || []).length === 0 && (insight.product_ideas || []).length === 0 && (
+                      <p className="text-slate-500 italic">None identified.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,10 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { ArrowRight, MessageSquare, Brain, Target, TrendingUp, Users, Zap, CheckCircle, LogIn, UserPlus, LogOut, Loader2 } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
 import { supabase } from '@/lib/supabaseClient'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import { FREE_RESPONSE_LIMIT, PLANS, planFeatureList } from '@shared/entitlements'
 
 // Price IDs from Stripe
 const PRICE_IDS = {
@@ -19,6 +22,7 @@ const PRICE_IDS = {
 export default function Landing() {
   const navigate = useNavigate()
   const { session, user, signOut, loading } = useAuth()
+  const { currentWorkspace } = useWorkspace()
   const [isSignInOpen, setIsSignInOpen] = useState(false)
   const [isSignUpOpen, setIsSignUpOpen] = useState(false)
   const [email, setEmail] = useState('')
@@ -38,20 +42,20 @@ export default function Landing() {
 
   const pricingPlans = [
     {
-      name: "Starter", 
+      name: PLANS.starter.name, 
       price: "$99", 
       period: "/month", 
       description: "Perfect for early-stage founders",
-      features: ["100 interview responses/month", "AI interview guide generation", "Automated insights & summaries", "Basic analytics dashboard", "Email support"],
+      features: planFeatureList('starter'),
       popular: true,
       priceId: PRICE_IDS.starter
     },
     {
-      name: "Pro", 
+      name: PLANS.pro.name, 
       price: "$299", 
       period: "/month", 
       description: "For growing product teams",
-      features: ["500 interview responses/month", "Advanced analytics & patterns", "Team collaboration features", "Custom interview templates", "Priority support", "Export capabilities"],
+      features: planFeatureList('pro'),
       popular: false,
       priceId: PRICE_IDS.pro
     }
@@ -66,16 +70,13 @@ export default function Landing() {
     setCheckoutLoading(planName)
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout-session', {
-        body: { 
-          priceId, 
-          userId: user.id,
-          userEmail: user.email 
-        }
+        // Plans are billed per workspace; checkout upgrades the one selected on the dashboard
+        body: { priceId, workspaceId: currentWorkspace?.id }
       })
 
       if (error) {
         console.error('Supabase function error:', error)
-        throw new Error(`Function error: ${error.message}`)
+        throw await toFunctionError(error)
       }
       
       if (data?.error) {
@@ -310,7 +311,7 @@ export default function Landing() {
               Simple, transparent pricing
             </h2>
             <p className="text-xl text-slate-600">
-              Start validating your ideas today
+              Start free with {FREE_RESPONSE_LIMIT} responses a month, then pick a plan as you grow
             </p>
           </div>
           <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
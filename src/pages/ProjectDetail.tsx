@@ -0,0 +1,473 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  BarChart3,
+  Copy,
+  ExternalLink,
+  FileText,
+  FolderOpen,
+  ListChecks,
+  Loader2,
+  RotateCw,
+} from 'lucide-react'
+import ProjectStatusControl from '@/components/ProjectStatusControl'
+import InterviewInvites from '@/components/InterviewInvites'
+import ScreenerEditor from '@/components/ScreenerEditor'
+import ConsentSettings from '@/components/ConsentSettings'
+import PiiRedactionSettings from '@/components/PiiRedactionSettings'
+import { useAuth } from '@/contexts/AuthContext'
+import { useWorkspace } from '@/contexts/WorkspaceContext'
+import { supabase } from '@/lib/supabaseClient'
+import type { Tables } from '@/lib/database.types'
+import { toFunctionError } from '@/lib/edgeFunctions'
+import { hasWorkspaceRole } from '@shared/workspaces'
+import { resolveRedactionSettings, type RedactionSettings } from '@shared/redaction'
+import { SCREENER_QUESTION_TYPE_LABELS, describeQualifyRule, getScreenerQuestions, type Screener } from '@shared/screener'
+
+type ProjectRecord = Pick<Tables<'projects'>, 'id' | 'title' | 'description' | 'status' | 'max_responses' | 'created_at' | 'workspace_id' | 'invite_only' | 'current_consent_version_id'> & {
+  screener: Screener | null;
+  redaction_settings: RedactionSettings;
+}
+
+type InterviewRow = Pick<
+  Tables<'interviews'>,
+  | 'id'
+  | 'status'
+  | 'started_at'
+  | 'completed_at'
+  | 'last_activity_at'
+  | 'conclusion_reason'
+  | 'processing_status'
+  | 'processing_error'
+> & {
+  conversations: { count: number }[];
+  interview_invites: { name: string | null; email: string | null; segment: string | null } | null;
+}
+
+// "insights_failed" cuts across statuses: completed interviews whose insight job failed
+type StatusFilter = 'all' | 'started' | 'completed' | 'abandoned' | 'screened_out' | 'insights_failed'
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'started', label: 'In progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'abandoned', label: 'Abandoned' },
+  { value: 'screened_out', label: 'Screened out' },
+  { value: 'insights_failed', label: 'Insights failed' },
+]
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  started: 'bg-blue-100 text-blue-800',
+  abandoned: 'bg-slate-100 text-slate-700',
+  screened_out: 'bg-amber-100 text-amber-800',
+}
+
+const matchesFilter = (interview: InterviewRow, filter: StatusFilter) => {
+  if (filter === 'all') return true
+  if (filter === 'insights_failed') return interview.processing_status === 'failed'
+  return interview.status === filter
+}
+
+// In-progress and abandoned interviews run until their last recorded activity
+const formatDuration = (interview: InterviewRow) => {
+  const end = interview.completed_at || interview.last_activity_at
+  if (!interview.started_at || !end) return '—'
+  const minutes = Math.max(0, Math.round((new Date(end).getTime() - new Date(interview.started_at).getTime()) / 60000))
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const percentOf = (value: number, total: number) => total > 0 ? Math.round((value / total) * 100) : 0
+
+export default function ProjectDetailPage() {
+  const { projectId } = useParams<{ projectId: string }>()
+  const navigate = useNavigate()
+  const { user, session, loading: authLoading } = useAuth()
+  const { workspaces, loading: workspacesLoading } = useWorkspace()
+
+  const [project, setProject] = useState<ProjectRecord | null>(null)
+  const [interviews, setInterviews] = useState<InterviewRow[]>([])
+  const [linkOpens, setLinkOpens] = useState(0)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [rerunningId, setRerunningId] = useState<string | null>(null)
+  const [editingScreener, setEditingScreener] = useState(false)
+
+  useEffect(() => {
+    if (!authLoading && !session) {
+      navigate('/')
+    }
+  }, [authLoading, session, navigate])
+
+  const fetchProject = useCallback(async () => {
+    if (!user || !projectId || workspacesLoading) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const [
+        { data: projectData, error: projectError },
+        { data: interviewsData, error: interviewsError },
+        { count: opensCount, error: opensError },
+      ] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('id, title, description, status, max_responses, created_at, workspace_id, invite_only, screener, current_consent_version_id, redaction_settings')
+          .eq('id', projectId)
+          .in('workspace_id', workspaces.map(w => w.id))
+          .maybeSingle(),
+        supabase
+          .from('interviews')
+          .select('id, status, started_at, completed_at, last_activity_at, conclusion_reason, processing_status, processing_error, conversations(count), interview_invites(name, email, segment)')
+          .eq('project_id', projectId)
+          .order('started_at', { ascending: false }),
+        supabase
+          .from('interview_link_opens')
+          .select('id', { count: 'exact', head: true })
+          .eq('project_id', projectId),
+      ])
+
+      if (projectError) throw projectError
+      if (!projectData) throw new Error('Project not found or access denied.')
+      if (interviewsError) throw interviewsError
+      if (opensError) console.warn('Could not load link opens:', opensError.message)
+
+      setProject({
+        ...projectData,
+        screener: projectData.screener as unknown as Screener | null,
+        redaction_settings: resolveRedactionSettings(projectData.redaction_settings as unknown as Partial<RedactionSettings> | null),
+      })
+      setInterviews(interviewsData || [])
+      setLinkOpens(opensCount || 0)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load project.')
+      console.error('Project fetch error:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user, projectId, workspaces, workspacesLoading])
+
+  useEffect(() => {
+    fetchProject()
+  }, [fetchProject])
+
+  // Viewers can follow a project but not change it
+  const canEdit = hasWorkspaceRole(workspaces.find(w => w.id === project?.workspace_id)?.role, 'editor')
+
+  const handleRerunInsights = async (interviewId: string) => {
+    setRerunningId(interviewId)
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('process-interview-insights', {
+        body: { interviewId }
+      })
+
+      if (fnError) throw await toFunctionError(fnError)
+      if (data.error) throw new Error(data.error)
+
+      await fetchProject()
+    } catch (err: unknown) {
+      console.error('Insight re-run error:', err)
+      alert(`Failed to re-run insights: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setRerunningId(null)
+    }
+  }
+
+  const counts = useMemo(() => {
+    const byFilter = Object.fromEntries(STATUS_FILTERS.map(f => [f.value, interviews.filter(i => matchesFilter(i, f.value)).length]))
+    return byFilter as Record<StatusFilter, number>
+  }, [interviews])
+
+  const filteredInterviews = interviews.filter(i => matchesFilter(i, statusFilter))
+
+  const screenerQuestions = getScreenerQuestions(project?.screener)
+  const startedCount = interviews.length - (counts.screened_out || 0)
+
+  // Opens are only tracked since link tracking shipped, so never show fewer
+  // opens than starts. Screened-out respondents answered the screener but
+  // never started an interview.
+  const funnel = [
+    { label: 'Link opens', value: Math.max(linkOpens, interviews.length) },
+    ...(screenerQuestions.length > 0 || counts.screened_out ? [{ label: 'Screener answered', value: interviews.length }] : []),
+    { label: 'Interviews started', value: startedCount },
+    { label: 'Completed', value: counts.completed || 0 },
+  ]
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-white to-blue-50">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <p className="ml-2 text-slate-700">Loading project...</p>
+      </div>
+    )
+  }
+
+  if (error || !project) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center p-4">
+        <AlertTriangle className="h-12 w-12 text-red-500 mb-4" />
+        <h2 className="text-2xl font-semibold text-red-700 mb-2">Error Loading Project</h2>
+        <p className="text-slate-600 mb-6">{error || 'Project not found.'}</p>
+        <Button onClick={() => navigate('/dashboard')} variant="outline">Back to Dashboard</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
+      <header className="border-b bg-white/80 backdrop-blur-md sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4 min-w-0">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Button>
+              <div className="h-6 w-px bg-slate-300"></div>
+              <div className="flex items-center space-x-2 min-w-0">
+                <FolderOpen className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                <span className="text-xl font-bold text-slate-900 truncate">{project.title}</span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(`${window.location.origin}/interview/${project.id}`)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate(`/interview/${project.id}`)}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Open Interview
+              </Button>
+              <Button size="sm" onClick={() => navigate('/analytics')}>
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Analytics
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <div className="flex items-center space-x-3 mb-2">
+            <h1 className="text-3xl font-bold text-slate-900">{project.title}</h1>
+            <ProjectStatusControl
+              projectId={project.id}
+              status={project.status}
+              onChanged={(status) => setProject(prev => prev ? { ...prev, status } : prev)}
+              readOnly={!canEdit}
+            />
+          </div>
+          <p className="text-lg text-slate-600">{project.description || 'No description'}</p>
+          {project.status === 'draft' && (
+            <p className="text-sm text-slate-500 mt-2">This project is a draft. Activate it before sharing the interview link; respondents see a closed page until then.</p>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Funnel</CardTitle>
+            <CardDescription>From opening the interview link to a completed interview</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {funnel.map((step, index) => (
+              <div key={step.label} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-slate-900">{step.label}</span>
+                  <span className="text-slate-600">
+                    {step.value}
+                    {index > 0 && ` · ${percentOf(step.value, funnel[index - 1].value)}% of previous`}
+                  </span>
+                </div>
+                <div className="w-full bg-slate-200 rounded-full h-3">
+                  <div
+                    className="bg-gradient-to-r from-blue-600 to-indigo-600 h-3 rounded-full"
+                    style={{ width: `${percentOf(step.value, funnel[0].value)}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-slate-500">
+              {counts.completed || 0} / {project.max_responses || 100} responses collected
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Screener</CardTitle>
+                <CardDescription>
+                  Asked before the interview. Respondents who don't qualify are thanked and never reach the interviewer, so they don't use your response quota.
+                </CardDescription>
+              </div>
+              {canEdit && (
+                <Button variant="outline" size="sm" onClick={() => setEditingScreener(true)}>
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Edit Screener
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {screenerQuestions.length === 0 ? (
+              <p className="text-slate-500 italic text-sm">No screener. Everyone who opens the link can start an interview.</p>
+            ) : (
+              <ol className="space-y-2">
+                {screenerQuestions.map((question, index) => (
+                  <li key={question.id} className="flex items-start justify-between gap-4 text-sm">
+                    <span className="text-slate-900">{index + 1}. {question.text}</span>
+                    <span className="text-slate-500 whitespace-nowrap">
+                      {SCREENER_QUESTION_TYPE_LABELS[question.type]} · {describeQualifyRule(question)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        <ConsentSettings
+          projectId={project.id}
+          currentConsentVersionId={project.current_consent_version_id}
+          canEdit={canEdit}
+          onChanged={(consentVersionId) => setProject(prev => prev ? { ...prev, current_consent_version_id: consentVersionId } : prev)}
+        />
+
+        <PiiRedactionSettings
+          key={project.id}
+          projectId={project.id}
+          settings={project.redaction_settings}
+          canEdit={canEdit}
+          onSaved={(settings) => setProject(prev => prev ? { ...prev, redaction_settings: settings } : prev)}
+        />
+
+        <InterviewInvites
+          projectId={project.id}
+          inviteOnly={project.invite_only}
+          canEdit={canEdit}
+          onInviteOnlyChanged={(inviteOnly) => setProject(prev => prev ? { ...prev, invite_only: inviteOnly } : prev)}
+        />
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle>Interviews</CardTitle>
+                <CardDescription>Every session started from this project's shared link or its invites</CardDescription>
+              </div>
+              <ToggleGroup
+                type="single"
+                value={statusFilter}
+                onValueChange={(value) => { if (value) setStatusFilter(value as StatusFilter) }}
+                className="flex-wrap justify-start"
+              >
+                {STATUS_FILTERS.map(filter => (
+                  <ToggleGroupItem key={filter.value} value={filter.value} size="sm">
+                    {filter.label} ({counts[filter.value] || 0})
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredInterviews.length === 0 ? (
+              <p className="text-slate-500 italic py-6 text-center">No interviews match this filter.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Respondent</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Messages</TableHead>
+                    <TableHead>Insights</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredInterviews.map(interview => (
+                    <TableRow key={interview.id}>
+                      <TableCell>{interview.started_at ? new Date(interview.started_at).toLocaleString() : '—'}</TableCell>
+                      <TableCell>
+                        {interview.interview_invites ? (
+                          <>
+                            <p className="text-sm text-slate-900">{interview.interview_invites.name || interview.interview_invites.email}</p>
+                            {interview.interview_invites.segment && <p className="text-xs text-slate-500">{interview.interview_invites.segment}</p>}
+                          </>
+                        ) : (
+                          <span className="text-sm text-slate-500">Shared link</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[interview.status] || 'bg-slate-100 text-slate-700'}>{interview.status}</Badge>
+                      </TableCell>
+                      <TableCell>{formatDuration(interview)}</TableCell>
+                      <TableCell>{interview.conversations?.[0]?.count ?? 0}</TableCell>
+                      <TableCell>
+                        {interview.processing_status === 'failed' ? (
+                          <span className="text-red-600 text-sm" title={interview.processing_error || undefined}>Failed</span>
+                        ) : (
+                          <span className="text-sm text-slate-600">{interview.processing_status || '—'}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {interview.processing_status === 'failed' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRerunInsights(interview.id)}
+                            disabled={!canEdit || rerunningId === interview.id}
+                          >
+                            {rerunningId === interview.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCw className="w-4 h-4 mr-2" />}
+                            Re-run
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/projects/${project.id}/interviews/${interview.id}`)}>
+                          <FileText className="w-4 h-4 mr-2" />
+                          Transcript
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={editingScreener} onOpenChange={setEditingScreener}>
+        <DialogContent className="sm:max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>Edit Screener</DialogTitle>
+            <DialogDescription>
+              Multiple choice, number and yes/no questions with the answers that qualify. Changes apply to respondents who haven't started yet.
+            </DialogDescription>
+          </DialogHeader>
+          {editingScreener && (
+            <ScreenerEditor
+              projectId={project.id}
+              screener={project.screener}
+              onCancel={() => setEditingScreener(false)}
+              onSaved={(screener) => {
+                setProject(prev => prev ? { ...prev, screener } : prev)
+                setEditingScreener(false)
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
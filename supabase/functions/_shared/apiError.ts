@@ -0,0 +1,37 @@
+// Shape of every error response from the edge functions, shared with the
+// frontend so it can show the real reason instead of a bare status code.
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "conflict"
+  | "payload_too_large"
+  | "rate_limited"
+  | "internal"
+
+export interface ApiErrorBody {
+  error: string
+  code: ApiErrorCode
+  // Extra fields a function attaches for the caller, e.g. requiredPlan
+  [detail: string]: unknown
+}
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  413: "payload_too_large",
+  429: "rate_limited",
+}
+
+export const errorCodeForStatus = (status: number): ApiErrorCode => STATUS_CODES[status] ?? "internal"
+
+export const isApiErrorBody = (value: unknown): value is ApiErrorBody =>
+  typeof value === "object" && value !== null &&
+  typeof (value as ApiErrorBody).error === "string" && typeof (value as ApiErrorBody).code === "string"
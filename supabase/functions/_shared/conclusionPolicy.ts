@@ -0,0 +1,51 @@
+// Per-project rules that decide when an interview is over. Stored as JSON on
+// projects.conclusion_policy and evaluated only by the ai-interviewer function.
+
+export interface ConclusionPolicy {
+  maxTurns: number | null
+  maxMinutes: number | null
+  endWhenGuideCompleted: boolean
+  honorAiSignal: boolean
+}
+
+export type ConclusionReason = "max_turns" | "max_minutes" | "guide_completed" | "ai_signal"
+
+export interface ConclusionContext {
+  userTurns: number
+  startedAt: string | null
+  guideCompleted: boolean
+  aiSignaledEnd: boolean
+  now?: Date
+}
+
+export const DEFAULT_CONCLUSION_POLICY: ConclusionPolicy = {
+  maxTurns: 12,
+  maxMinutes: 20,
+  endWhenGuideCompleted: true,
+  honorAiSignal: true,
+}
+
+const positiveOrNull = (value: unknown, fallback: number | null) => {
+  if (value === null) return null
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback
+}
+
+// Fills in defaults for projects created before the policy existed or saved
+// with partial settings.
+export const resolveConclusionPolicy = (raw: Partial<ConclusionPolicy> | null | undefined): ConclusionPolicy => ({
+  maxTurns: positiveOrNull(raw?.maxTurns, DEFAULT_CONCLUSION_POLICY.maxTurns),
+  maxMinutes: positiveOrNull(raw?.maxMinutes, DEFAULT_CONCLUSION_POLICY.maxMinutes),
+  endWhenGuideCompleted: raw?.endWhenGuideCompleted ?? DEFAULT_CONCLUSION_POLICY.endWhenGuideCompleted,
+  honorAiSignal: raw?.honorAiSignal ?? DEFAULT_CONCLUSION_POLICY.honorAiSignal,
+})
+
+export const evaluateConclusion = (policy: ConclusionPolicy, context: ConclusionContext): ConclusionReason | null => {
+  if (policy.endWhenGuideCompleted && context.guideCompleted) return "guide_completed"
+  if (policy.honorAiSignal && context.aiSignaledEnd) return "ai_signal"
+  if (policy.maxTurns !== null && context.userTurns >= policy.maxTurns) return "max_turns"
+  if (policy.maxMinutes !== null && context.startedAt) {
+    const elapsedMinutes = ((context.now ?? new Date()).getTime() - new Date(context.startedAt).getTime()) / 60000
+    if (elapsedMinutes >= policy.maxMinutes) return "max_minutes"
+  }
+  return null
+}
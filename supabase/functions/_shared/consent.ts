@@ -0,0 +1,37 @@
+// Consent and privacy notice shown to respondents before an interview starts.
+// Each saved notice is an immutable row in consent_versions; interviews record
+// the version accepted.
+
+export interface ConsentCheckbox {
+  id: string
+  label: string
+}
+
+export interface ConsentNotice {
+  text: string
+  privacyPolicyUrl: string | null
+  // Every checkbox must be ticked before the interview can start
+  checkboxes: ConsentCheckbox[]
+}
+
+export const DEFAULT_CONSENT_NOTICE: ConsentNotice = {
+  text: "Before we start, please read how we handle your answers. This interview is a text conversation with an AI interviewer on behalf of the team. Your messages are stored and analysed to help the team understand customer needs, and are only shared with the people working on this project.",
+  privacyPolicyUrl: null,
+  checkboxes: [
+    { id: "participate", label: "I agree to take part in this interview and for my answers to be stored and analysed." },
+    { id: "ai-processing", label: "I understand my answers are processed by an AI system to produce research insights." },
+  ],
+}
+
+export const getConsentCheckboxes = (notice: ConsentNotice | null | undefined): ConsentCheckbox[] =>
+  Array.isArray(notice?.checkboxes) ? notice.checkboxes.filter(c => c && c.id && c.label) : []
+
+// Only http(s) links are shown, so a notice can't smuggle in a javascript: URL
+export const isValidPrivacyPolicyUrl = (url: string | null | undefined): url is string => {
+  if (!url) return false
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
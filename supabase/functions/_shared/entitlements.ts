@@ -0,0 +1,119 @@
+// What each plan includes. The pricing page, the dashboard and the edge
+// functions all read plan limits and feature access from here; the Stripe
+// webhook only decides which plan a subscription is on.
+
+export type PlanId = "starter" | "pro"
+
+export type Feature = "export" | "advancedAnalytics" | "teamCollaboration" | "customTemplates" | "prioritySupport"
+
+export interface Entitlements {
+  plan: PlanId | null
+  // null means unmetered
+  responseLimit: number | null
+  teamSeats: number
+  features: Record<Feature, boolean>
+}
+
+interface PlanDefinition extends Entitlements {
+  plan: PlanId
+  name: string
+  // Pricing page bullets for what the plan adds beyond its limits
+  highlights: string[]
+}
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  starter: {
+    plan: "starter",
+    name: "Starter",
+    responseLimit: 100,
+    teamSeats: 1,
+    features: {
+      export: false,
+      advancedAnalytics: false,
+      teamCollaboration: false,
+      customTemplates: false,
+      prioritySupport: false,
+    },
+    highlights: ["AI interview guide generation", "Automated insights & summaries", "Basic analytics dashboard", "Email support"],
+  },
+  pro: {
+    plan: "pro",
+    name: "Pro",
+    responseLimit: 500,
+    teamSeats: 5,
+    features: {
+      export: true,
+      advancedAnalytics: true,
+      teamCollaboration: true,
+      customTemplates: true,
+      prioritySupport: true,
+    },
+    highlights: ["Advanced analytics & patterns", "Custom interview templates", "Priority support", "Export capabilities"],
+  },
+}
+
+export const FEATURE_LABELS: Record<Feature, string> = {
+  export: "Export",
+  advancedAnalytics: "Advanced analytics",
+  teamCollaboration: "Team collaboration",
+  customTemplates: "Custom interview templates",
+  prioritySupport: "Priority support",
+}
+
+// The plan that unlocks a feature, for upgrade prompts
+export const planForFeature = (feature: Feature): PlanId =>
+  (Object.keys(PLANS) as PlanId[]).find(plan => PLANS[plan].features[feature]) ?? "pro"
+
+export const isPlanId = (value: unknown): value is PlanId =>
+  typeof value === "string" && value in PLANS
+
+// Past-due subscriptions keep their plan while Stripe retries the payment
+const ENTITLED_STATUSES = ["active", "trialing", "past_due"]
+
+export const isEntitledStatus = (status: string | null | undefined) => ENTITLED_STATUSES.includes(status ?? "")
+
+// Completed responses per calendar month for workspaces without an entitled
+// plan, canceled ones included. workspace_response_quota in the database
+// applies the same rule.
+export const FREE_RESPONSE_LIMIT = 10
+
+export const NO_PLAN_ENTITLEMENTS: Entitlements = {
+  plan: null,
+  responseLimit: FREE_RESPONSE_LIMIT,
+  teamSeats: 1,
+  features: {
+    export: false,
+    advancedAnalytics: false,
+    teamCollaboration: false,
+    customTemplates: false,
+    prioritySupport: false,
+  },
+}
+
+export interface SubscriptionLike {
+  plan_type: string | null
+  status: string | null
+}
+
+export const getEntitlements = (subscription: SubscriptionLike | null | undefined): Entitlements => {
+  if (!subscription || !isPlanId(subscription.plan_type) || !isEntitledStatus(subscription.status)) {
+    return NO_PLAN_ENTITLEMENTS
+  }
+  const { plan, responseLimit, teamSeats, features } = PLANS[subscription.plan_type]
+  return { plan, responseLimit, teamSeats, features }
+}
+
+export const hasFeature = (entitlements: Entitlements, feature: Feature) => entitlements.features[feature]
+
+export const formatResponseLimit = (limit: number | null) =>
+  limit === null ? "Unlimited interview responses" : `${limit} interview responses/month`
+
+// Pricing page bullets: the limits first, then what the plan adds
+export const planFeatureList = (plan: PlanId) => {
+  const definition = PLANS[plan]
+  return [
+    formatResponseLimit(definition.responseLimit),
+    ...(definition.teamSeats > 1 ? [`Team collaboration (${definition.teamSeats} seats)`] : []),
+    ...definition.highlights,
+  ]
+}
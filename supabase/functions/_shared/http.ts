@@ -0,0 +1,98 @@
+// Request handling shared by every edge function: CORS, authentication and
+// error responses. A function describes who may call it and throws HttpError
+// for expected failures; anything else becomes a 500.
+import { createClient, type User } from "npm:@supabase/supabase-js@2"
+import { errorCodeForStatus, type ApiErrorBody } from "./apiError.ts"
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+}
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details: Record<string, unknown> = {}) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+
+export const errorResponse = (status: number, message: string, details: Record<string, unknown> = {}) => {
+  const body: ApiErrorBody = { ...details, error: message, code: errorCodeForStatus(status) }
+  return jsonResponse(body, status)
+}
+
+export const readJson = async <T = Record<string, unknown>>(req: Request): Promise<T> => {
+  try {
+    return await req.json()
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON")
+  }
+}
+
+// "user": a signed-in founder. "user-or-service": a founder, or another backend
+// component calling with the service role key (database triggers). "public":
+// respondents and third parties such as Stripe, who authenticate some other way.
+export type AuthMode = "user" | "user-or-service" | "public"
+
+export interface RequestContext<A extends AuthMode> {
+  req: Request
+  user: A extends "user" ? User : User | null
+  isServiceRole: boolean
+}
+
+interface HandlerOptions<A extends AuthMode> {
+  // Used in logs and as the message of unexpected errors
+  name: string
+  auth: A
+}
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const authClient = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey)
+
+const bearerToken = (req: Request) => req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || null
+
+// The caller's identity comes from their verified JWT, never from the request body.
+const authenticate = async (req: Request, auth: AuthMode) => {
+  if (auth === "public") return { user: null, isServiceRole: false }
+
+  const token = bearerToken(req)
+  if (!token) throw new HttpError(401, "Missing authorization token")
+  if (token === serviceRoleKey) {
+    if (auth === "user-or-service") return { user: null, isServiceRole: true }
+    throw new HttpError(403, "This endpoint must be called by a signed-in user")
+  }
+
+  const { data: { user }, error } = await authClient.auth.getUser(token)
+  if (error || !user) throw new HttpError(401, "Invalid or expired session")
+  return { user, isServiceRole: false }
+}
+
+export const createHandler = <A extends AuthMode>(
+  options: HandlerOptions<A>,
+  handle: (context: RequestContext<A>) => Promise<Response>,
+) => async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, `Method ${req.method} not allowed`)
+  }
+
+  try {
+    const { user, isServiceRole } = await authenticate(req, options.auth)
+    return await handle({ req, user, isServiceRole } as RequestContext<A>)
+  } catch (error: unknown) {
+    if (error instanceof HttpError) {
+      return errorResponse(error.status, error.message, error.details)
+    }
+    console.error(`Error in ${options.name}:`, error)
+    return errorResponse(500, error instanceof Error ? error.message : `${options.name} failed`)
+  }
+}
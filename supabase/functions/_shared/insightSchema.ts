@@ -0,0 +1,287 @@
+// Canonical shape of the insight payload produced by process-interview-insights
+// and stored in the insights table. Imported by the edge function for
+// validation and by the frontend (via the @shared alias) for its types, so it
+// must stay free of runtime-specific imports.
+
+export const SEVERITIES = ["high", "medium", "low"] as const
+export const SENTIMENTS = ["positive", "negative", "neutral", "frustrated", "excited"] as const
+export const OBJECTION_TYPES = ["price", "feature_missing", "complexity", "trust", "timing", "other"] as const
+export const SPEAKERS = ["User", "Founder"] as const
+export const IDEA_SOURCES = ["direct_suggestion", "implied_need"] as const
+
+export type Severity = typeof SEVERITIES[number]
+export type Sentiment = typeof SENTIMENTS[number]
+export type ObjectionType = typeof OBJECTION_TYPES[number]
+export type Speaker = typeof SPEAKERS[number]
+export type IdeaSource = typeof IDEA_SOURCES[number]
+
+export interface ExecutiveSummary {
+  whatWeLearned: string
+  whatToBuildNext: string
+}
+
+// Evidence-bearing items cite the ids of the conversations rows they were
+// drawn from, so every claim can be traced back to the transcript.
+export interface PainPoint {
+  point: string
+  severity: Severity
+  messageIds: number[]
+}
+
+export interface NotableQuote {
+  quote: string
+  speaker: Speaker
+  sentiment: Sentiment
+  messageIds: number[]
+}
+
+export interface Objection {
+  objection: string
+  type: ObjectionType
+  messageIds: number[]
+}
+
+export interface ProductIdea {
+  idea: string
+  source: IdeaSource
+}
+
+export interface InsightPayload {
+  executiveSummary: ExecutiveSummary
+  painPoints: PainPoint[]
+  notableQuotes: NotableQuote[]
+  objections: Objection[]
+  productIdeas: ProductIdea[]
+}
+
+export const INSIGHT_LIMITS = { painPoints: 5, notableQuotes: 5, objections: 3, productIdeas: 3 }
+
+// Common model wording mapped onto the canonical enum values.
+const SYNONYMS: Record<string, string> = {
+  critical: "high",
+  severe: "high",
+  major: "high",
+  moderate: "medium",
+  minor: "low",
+  mild: "low",
+  happy: "positive",
+  interested: "positive",
+  enthusiastic: "excited",
+  angry: "frustrated",
+  annoyed: "frustrated",
+  concerned: "negative",
+  skeptical: "negative",
+  mixed: "neutral",
+  cost: "price",
+  pricing: "price",
+  missing_feature: "feature_missing",
+  complex: "complexity",
+  security: "trust",
+  privacy: "trust",
+  interviewee: "User",
+  respondent: "User",
+  customer: "User",
+  interviewer: "Founder",
+  direct: "direct_suggestion",
+  implied: "implied_need",
+}
+
+const normalizeEnum = <T extends string>(value: unknown, allowed: readonly T[]): T | null => {
+  if (typeof value !== "string") return null
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_")
+  const match = allowed.find(option => option.toLowerCase() === key)
+  if (match) return match
+  const synonym = SYNONYMS[key]
+  return allowed.find(option => option === synonym) ?? null
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0
+
+// Accepts ids as numbers or numeric strings ("12", "#12"); null if any entry is unusable.
+const parseMessageIds = (value: unknown): number[] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null
+  const ids = value.map(id => typeof id === "string" ? Number(id.trim().replace(/^#/, "")) : id)
+  return ids.every(id => typeof id === "number" && Number.isInteger(id) && id > 0) ? [...new Set(ids as number[])] : null
+}
+
+export type InsightValidationResult =
+  | { ok: true; value: InsightPayload }
+  | { ok: false; errors: string[] }
+
+// Validates raw model output against the schema, normalizing enum values and
+// trimming lists to their limits. Any field that cannot be coerced is reported
+// so the caller can ask the model to repair it.
+export const validateInsightPayload = (raw: unknown): InsightValidationResult => {
+  const errors: string[] = []
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, errors: ["Payload must be a JSON object"] }
+  }
+  const input = raw as Record<string, unknown>
+
+  const summary = input.executiveSummary as Record<string, unknown> | undefined
+  if (!summary || !isNonEmptyString(summary.whatWeLearned) || !isNonEmptyString(summary.whatToBuildNext)) {
+    errors.push('"executiveSummary" must have non-empty string "whatWeLearned" and "whatToBuildNext"')
+  }
+
+  const list = <T>(key: keyof typeof INSIGHT_LIMITS, parse: (item: Record<string, unknown>, path: string) => T | null): T[] => {
+    const value = input[key]
+    if (value === undefined) return []
+    if (!Array.isArray(value)) {
+      errors.push(`"${key}" must be an array`)
+      return []
+    }
+    return value.slice(0, INSIGHT_LIMITS[key]).flatMap((item, index) => {
+      const path = `${key}[${index}]`
+      if (typeof item !== "object" || item === null) {
+        errors.push(`${path} must be an object`)
+        return []
+      }
+      const parsed = parse(item as Record<string, unknown>, path)
+      return parsed ? [parsed] : []
+    })
+  }
+
+  const field = <T>(path: string, name: string, value: T | null, allowed?: readonly string[]) => {
+    if (value === null) {
+      errors.push(allowed ? `${path}.${name} must be one of: ${allowed.join(", ")}` : `${path}.${name} must be a non-empty string`)
+    }
+    return value
+  }
+
+  const evidence = (path: string, value: unknown) => {
+    const ids = parseMessageIds(value)
+    if (ids === null) errors.push(`${path}.messageIds must be a non-empty array of transcript message ids`)
+    return ids
+  }
+
+  const painPoints = list("painPoints", (item, path) => {
+    const point = field(path, "point", isNonEmptyString(item.point) ? item.point.trim() : null)
+    const severity = field(path, "severity", normalizeEnum(item.severity, SEVERITIES), SEVERITIES)
+    const messageIds = evidence(path, item.messageIds)
+    return point && severity && messageIds ? { point, severity, messageIds } : null
+  })
+
+  const notableQuotes = list("notableQuotes", (item, path) => {
+    const quote = field(path, "quote", isNonEmptyString(item.quote) ? item.quote.trim() : null)
+    const speaker = field(path, "speaker", normalizeEnum(item.speaker, SPEAKERS), SPEAKERS)
+    const sentiment = field(path, "sentiment", normalizeEnum(item.sentiment, SENTIMENTS), SENTIMENTS)
+    const messageIds = evidence(path, item.messageIds)
+    return quote && speaker && sentiment && messageIds ? { quote, speaker, sentiment, messageIds } : null
+  })
+
+  const objections = list("objections", (item, path) => {
+    const objection = field(path, "objection", isNonEmptyString(item.objection) ? item.objection.trim() : null)
+    const type = field(path, "type", normalizeEnum(item.type, OBJECTION_TYPES), OBJECTION_TYPES)
+    const messageIds = evidence(path, item.messageIds)
+    return objection && type && messageIds ? { objection, type, messageIds } : null
+  })
+
+  const productIdeas = list("productIdeas", (item, path) => {
+    const idea = field(path, "idea", isNonEmptyString(item.idea) ? item.idea.trim() : null)
+    const source = field(path, "source", normalizeEnum(item.source, IDEA_SOURCES), IDEA_SOURCES)
+    return idea && source ? { idea, source } : null
+  })
+
+  if (errors.length > 0) return { ok: false, errors }
+
+  return {
+    ok: true,
+    value: {
+      executiveSummary: {
+        whatWeLearned: String(summary!.whatWeLearned).trim(),
+        whatToBuildNext: String(summary!.whatToBuildNext).trim(),
+      },
+      painPoints,
+      notableQuotes,
+      objections,
+      productIdeas,
+    },
+  }
+}
+
+export interface TranscriptMessage {
+  id: number
+  speaker: Speaker
+  content: string
+  // Guardrail flags; flagged respondent messages don't count as evidence
+  flags?: string[]
+}
+
+const isFlagged = (message: TranscriptMessage) => (message.flags?.length ?? 0) > 0
+
+// Case, whitespace, typographic quotes and surrounding punctuation are ignored
+// when matching a quote against the transcript.
+const normalizeForMatch = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\s+/g, " ")
+    .replace(/^[\s"'.,;:!?-]+|[\s"'.,;:!?-]+$/g, "")
+
+// True when the quote is verbatim from the text. Ellipses are allowed to elide
+// words, as long as every remaining fragment appears in order.
+export const quoteAppearsIn = (quote: string, text: string): boolean => {
+  const haystack = normalizeForMatch(text)
+  const fragments = quote.split(/\.{3}|\u2026/).map(normalizeForMatch).filter(Boolean)
+  if (fragments.length === 0) return false
+  let from = 0
+  for (const fragment of fragments) {
+    const index = haystack.indexOf(fragment, from)
+    if (index === -1) return false
+    from = index + fragment.length
+  }
+  return true
+}
+
+export interface EvidenceCheck {
+  value: InsightPayload
+  errors: string[]
+}
+
+// Checks every cited message id against the interview transcript. Quotes must
+// appear verbatim in one of their cited messages and take their speaker from
+// it; pain points and objections must cite at least one respondent message.
+// Messages with guardrail flags are never accepted as evidence. Items that
+// fail are removed from the returned payload and reported.
+export const verifyInsightEvidence = (payload: InsightPayload, transcript: TranscriptMessage[]): EvidenceCheck => {
+  const errors: string[] = []
+  const byId = new Map(transcript.map(message => [message.id, message]))
+
+  const cited = (path: string, messageIds: number[]) => {
+    const unknown = messageIds.filter(id => !byId.has(id))
+    if (unknown.length > 0) errors.push(`${path}.messageIds cites ids not in the transcript: ${unknown.join(", ")}`)
+    return messageIds.filter(id => byId.has(id)).map(id => byId.get(id)!)
+  }
+
+  const fromRespondent = <T extends { messageIds: number[] }>(key: "painPoints" | "objections", items: T[]) =>
+    items.flatMap((item, index) => {
+      const path = `${key}[${index}]`
+      const messages = cited(path, item.messageIds).filter(message => message.speaker === "User" && !isFlagged(message))
+      if (messages.length === 0) {
+        errors.push(`${path} must cite at least one unflagged message from the respondent (User)`)
+        return []
+      }
+      return [{ ...item, messageIds: messages.map(message => message.id) }]
+    })
+
+  const notableQuotes = payload.notableQuotes.flatMap((item, index) => {
+    const path = `notableQuotes[${index}]`
+    const source = cited(path, item.messageIds).find(message => !isFlagged(message) && quoteAppearsIn(item.quote, message.content))
+    if (!source) {
+      errors.push(`${path}.quote must be copied verbatim from one of its cited, unflagged messages`)
+      return []
+    }
+    return [{ ...item, speaker: source.speaker, messageIds: [source.id] }]
+  })
+
+  return {
+    value: {
+      ...payload,
+      painPoints: fromRespondent("painPoints", payload.painPoints),
+      notableQuotes,
+      objections: fromRespondent("objections", payload.objections),
+    },
+    errors,
+  }
+}
@@ -0,0 +1,85 @@
+// Shared interview guide types and the state machine that walks an interview
+// through the guide one question at a time.
+
+export const GUIDE_QUESTION_TYPES = ["open_ended", "pain_discovery", "solution_probing", "closing"] as const
+
+export type GuideQuestionType = typeof GUIDE_QUESTION_TYPES[number]
+
+export interface GuideQuestion {
+  id: string
+  text: string
+  type: GuideQuestionType | string
+  // Founder-written guidance for how the interviewer should probe this question.
+  followUpInstructions?: string
+  maxProbes?: number
+}
+
+export interface InterviewGuide {
+  questions: GuideQuestion[]
+}
+
+export interface GuideProgress {
+  currentQuestionId: string | null
+  probesUsed: number
+  completed: boolean
+}
+
+export type TurnDecision = "probe" | "advance"
+
+export const DEFAULT_MAX_PROBES = 2
+
+// Upper bound for a question's maxProbes, also checked by publish_guide_version
+export const MAX_PROBES_LIMIT = 5
+
+export const getGuideQuestions = (guide: InterviewGuide | null | undefined): GuideQuestion[] =>
+  Array.isArray(guide?.questions) ? guide.questions.filter(q => q && q.id && q.text) : []
+
+export const findQuestion = (guide: InterviewGuide | null | undefined, questionId: string | null) =>
+  getGuideQuestions(guide).find(q => q.id === questionId) ?? null
+
+export const initialProgress = (guide: InterviewGuide | null | undefined): GuideProgress => {
+  const first = getGuideQuestions(guide)[0]
+  return { currentQuestionId: first?.id ?? null, probesUsed: 0, completed: !first }
+}
+
+// Rebuilds progress from persisted AI messages: the active question is the one
+// the latest AI message was asked under, and every additional AI message for
+// that question counts as a follow-up probe.
+export const deriveProgress = (
+  guide: InterviewGuide | null | undefined,
+  history: Array<{ type: string; questionId?: string | null }>,
+): GuideProgress => {
+  const aiMessages = history.filter(m => m.type === "ai" && m.questionId)
+  const last = aiMessages[aiMessages.length - 1]
+  if (!last) return initialProgress(guide)
+
+  const asked = aiMessages.filter(m => m.questionId === last.questionId).length
+  return { currentQuestionId: last.questionId ?? null, probesUsed: Math.max(0, asked - 1), completed: false }
+}
+
+// Forces an advance once the current question has used up its probe budget.
+export const resolveDecision = (
+  guide: InterviewGuide | null | undefined,
+  progress: GuideProgress,
+  requested: TurnDecision,
+): TurnDecision => {
+  const question = findQuestion(guide, progress.currentQuestionId)
+  if (!question) return "advance"
+  const maxProbes = question.maxProbes ?? DEFAULT_MAX_PROBES
+  return requested === "probe" && progress.probesUsed < maxProbes ? "probe" : "advance"
+}
+
+export const applyDecision = (
+  guide: InterviewGuide | null | undefined,
+  progress: GuideProgress,
+  decision: TurnDecision,
+): GuideProgress => {
+  if (progress.completed) return progress
+  if (decision === "probe") return { ...progress, probesUsed: progress.probesUsed + 1 }
+
+  const questions = getGuideQuestions(guide)
+  const index = questions.findIndex(q => q.id === progress.currentQuestionId)
+  const next = questions[index + 1]
+  if (!next) return { currentQuestionId: progress.currentQuestionId, probesUsed: progress.probesUsed, completed: true }
+  return { currentQuestionId: next.id, probesUsed: 0, completed: false }
+}
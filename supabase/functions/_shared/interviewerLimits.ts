@@ -0,0 +1,12 @@
+// Limits the ai-interviewer function applies to anonymous respondents. The
+// interview page uses maxMessageLength for its input as well.
+export const INTERVIEWER_LIMITS = {
+  maxMessageLength: 2000,
+  // Respondent messages per interview over its whole lifetime
+  maxMessagesPerInterview: 60,
+  windowSeconds: 60,
+  messagesPerInterviewPerWindow: 8,
+  messagesPerIpPerWindow: 30,
+  // Most recent conversation messages sent to the model with each turn
+  historyMessages: 20,
+}
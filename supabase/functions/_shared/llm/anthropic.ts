@@ -0,0 +1,42 @@
+import Anthropic from "npm:@anthropic-ai/sdk@^0.39.0"
+import type { CompletionRequest, LlmClient } from "./types.ts"
+
+export const createAnthropicClient = (model: string, apiKey: string): LlmClient => {
+  const anthropic = new Anthropic({ apiKey })
+
+  // Anthropic takes the system prompt separately and has no JSON mode, so JSON
+  // requests are steered with an instruction plus a prefilled opening brace.
+  const params = (request: CompletionRequest) => {
+    const system = request.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n")
+    const messages = request.messages
+      .filter(m => m.role !== "system")
+      .map(m => ({ role: m.role as "user" | "assistant", content: m.content }))
+    if (request.json) messages.push({ role: "assistant", content: "{" })
+
+    return {
+      model,
+      system: request.json ? `${system}\n\nRespond with a single valid JSON object only.` : system,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens ?? 1024,
+      stop_sequences: request.stop,
+    }
+  }
+
+  return {
+    provider: "anthropic",
+    model,
+    async complete(request) {
+      const message = await anthropic.messages.create(params(request))
+      const text = message.content.map(block => block.type === "text" ? block.text : "").join("")
+      return request.json ? `{${text}` : text
+    },
+    async *stream(request) {
+      if (request.json) yield "{"
+      const stream = anthropic.messages.stream(params(request))
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") yield event.delta.text
+      }
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import { createAnthropicClient } from "./anthropic.ts"
+import { createMockClient } from "./mock.ts"
+import { createOpenAIClient } from "./openai.ts"
+import type { LlmClient, ModelTier } from "./types.ts"
+
+export type { ChatMessage, CompletionRequest, LlmClient, LlmTask, ModelTier } from "./types.ts"
+
+export type LlmProviderName = "openai" | "anthropic" | "local" | "mock"
+
+const DEFAULT_MODELS: Record<Exclude<LlmProviderName, "mock">, Record<ModelTier, string>> = {
+  openai: { fast: "gpt-4.1-nano", reasoning: "gpt-4.1" },
+  anthropic: { fast: "claude-3-5-haiku-latest", reasoning: "claude-sonnet-4-0" },
+  local: { fast: "llama3.1", reasoning: "llama3.1" },
+}
+
+const env = (name: string) => Deno.env.get(name) || undefined
+
+// Resolves the provider and model for one edge function. Each setting can be
+// overridden per function, e.g. LLM_PROVIDER_AI_INTERVIEWER=mock, falling back
+// to the global LLM_PROVIDER / LLM_MODEL and finally to OpenAI defaults.
+export const getLlm = (functionName: string, tier: ModelTier): LlmClient => {
+  const suffix = functionName.toUpperCase().replace(/[^A-Z0-9]/g, "_")
+  const provider = (env(`LLM_PROVIDER_${suffix}`) ?? env("LLM_PROVIDER") ?? "openai") as LlmProviderName
+  const configuredModel = env(`LLM_MODEL_${suffix}_${tier.toUpperCase()}`) ?? env(`LLM_MODEL_${suffix}`)
+
+  switch (provider) {
+    case "mock":
+      return createMockClient()
+    case "anthropic":
+      return createAnthropicClient(configuredModel ?? DEFAULT_MODELS.anthropic[tier], env("ANTHROPIC_API_KEY") ?? "")
+    case "local":
+      return createOpenAIClient({
+        provider,
+        model: configuredModel ?? env("LOCAL_LLM_MODEL") ?? DEFAULT_MODELS.local[tier],
+        apiKey: env("LOCAL_LLM_API_KEY") ?? "local",
+        baseURL: env("LOCAL_LLM_BASE_URL") ?? "http://host.docker.internal:11434/v1",
+      })
+    case "openai":
+      return createOpenAIClient({
+        provider,
+        model: configuredModel ?? DEFAULT_MODELS.openai[tier],
+        apiKey: env("OPENAI_API_KEY") ?? "",
+      })
+    default:
+      throw new Error(`Unknown LLM provider "${provider}" configured for ${functionName}`)
+  }
+}
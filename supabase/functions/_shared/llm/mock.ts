@@ -0,0 +1,54 @@
+import type { CompletionRequest, LlmClient, LlmTask } from "./types.ts"
+
+// Deterministic provider for local development and tests: no network, and the
+// same request always produces the same response.
+
+const lastUserMessage = (request: CompletionRequest) =>
+  [...request.messages].reverse().find(m => m.role === "user")?.content ?? ""
+
+const MOCK_RESPONSES: Record<LlmTask, (request: CompletionRequest) => string> = {
+  "interview-assessment": () => JSON.stringify({ decision: "advance", endInterview: false, flags: [] }),
+  "interview-reply": (request) => {
+    const answer = lastUserMessage(request)
+    return `Thanks for sharing that${answer ? ` — "${answer.slice(0, 60)}"` : ""}. Could you tell me a bit more?`
+  },
+  "interview-guide": () => JSON.stringify({
+    questions: [
+      { id: "q1", text: "To start, could you tell me a little about your role and what a typical week looks like?", type: "open_ended" },
+      { id: "q2", text: "What is the most frustrating part of how you handle this today?", type: "pain_discovery" },
+      { id: "q3", text: "What tools or workarounds do you currently use?", type: "open_ended" },
+      { id: "q4", text: "If you could wave a magic wand, what would the ideal solution do for you?", type: "solution_probing" },
+      { id: "q5", text: "Is there anything else you think I should know?", type: "closing" },
+    ],
+  }),
+  "interview-guide-question": () => JSON.stringify({
+    question: { text: "Can you walk me through the last time this problem came up?", type: "pain_discovery" },
+  }),
+  "interview-insights": (request) => {
+    // Cite the first respondent message in the transcript so evidence checks pass
+    const [, id, content] = request.messages[1]?.content.match(/\[#(\d+)\] User: (.+)/) ?? []
+    const messageIds = id ? [Number(id)] : []
+    return JSON.stringify({
+      executiveSummary: {
+        whatWeLearned: "Mock analysis: the respondent described their current workflow and its pain points.",
+        whatToBuildNext: "Mock analysis: prototype the workflow the respondent described as most painful.",
+      },
+      painPoints: id ? [{ point: "Current workflow is manual and slow", severity: "medium", messageIds }] : [],
+      notableQuotes: id ? [{ quote: content.split(" ").slice(0, 12).join(" "), speaker: "User", sentiment: "neutral", messageIds }] : [],
+      objections: id ? [{ objection: "Unsure about switching costs", type: "complexity", messageIds }] : [],
+      productIdeas: [{ idea: "Automate the manual steps", source: "implied_need" }],
+    })
+  },
+}
+
+export const createMockClient = (): LlmClient => ({
+  provider: "mock",
+  model: "mock",
+  complete(request) {
+    return Promise.resolve(MOCK_RESPONSES[request.task](request))
+  },
+  async *stream(request) {
+    const text = MOCK_RESPONSES[request.task](request)
+    for (const token of text.split(/(?<=\s)/)) yield token
+  },
+})
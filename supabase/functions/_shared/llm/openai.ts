@@ -0,0 +1,40 @@
+import { OpenAI } from "npm:openai@^4.52.7"
+import type { CompletionRequest, LlmClient } from "./types.ts"
+
+interface OpenAIClientOptions {
+  provider: string
+  model: string
+  apiKey: string
+  baseURL?: string
+}
+
+// Serves both OpenAI itself and any OpenAI-compatible endpoint (Ollama,
+// vLLM, LM Studio) reachable through a custom base URL.
+export const createOpenAIClient = ({ provider, model, apiKey, baseURL }: OpenAIClientOptions): LlmClient => {
+  const openai = new OpenAI({ apiKey, baseURL })
+
+  const params = (request: CompletionRequest) => ({
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    stop: request.stop,
+    ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+  })
+
+  return {
+    provider,
+    model,
+    async complete(request) {
+      const completion = await openai.chat.completions.create(params(request))
+      return completion.choices[0]?.message?.content ?? ""
+    },
+    async *stream(request) {
+      const completion = await openai.chat.completions.create({ ...params(request), stream: true })
+      for await (const chunk of completion) {
+        const delta = chunk.choices[0]?.delta?.content
+        if (delta) yield delta
+      }
+    },
+  }
+}
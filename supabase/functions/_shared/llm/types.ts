@@ -0,0 +1,31 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+// `task` names the job a prompt performs. Real providers ignore it; the mock
+// provider uses it to pick a deterministic canned response.
+export type LlmTask =
+  | "interview-assessment"
+  | "interview-reply"
+  | "interview-guide"
+  | "interview-guide-question"
+  | "interview-insights"
+
+export interface CompletionRequest {
+  task: LlmTask
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  stop?: string[]
+}
+
+export type ModelTier = "fast" | "reasoning"
+
+export interface LlmClient {
+  provider: string
+  model: string
+  complete(request: CompletionRequest): Promise<string>
+  stream(request: CompletionRequest): AsyncGenerator<string>
+}
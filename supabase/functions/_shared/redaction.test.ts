@@ -0,0 +1,41 @@
+// Run with: deno test supabase/functions/_shared/redaction.test.ts
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts"
+import { redactText, type RedactionSettings } from "./redaction.ts"
+
+const PHONE_ONLY: RedactionSettings = { categories: ["phone"], customTerms: [], originalsRetentionDays: 0 }
+
+Deno.test("redacts phone-shaped numbers", () => {
+  const phones = [
+    "+44 20 7946 0958",
+    "+1 (555) 123-4567",
+    "+15551234567",
+    "(555) 123-4567",
+    "555-123-4567",
+    "555.123.4567",
+    "1-800-555-0199",
+    "020 7946 0958",
+    "07700 900123",
+  ]
+  for (const phone of phones) {
+    assertEquals(redactText(`You can reach me on ${phone}.`, PHONE_ONLY), {
+      text: "You can reach me on [phone redacted].",
+      redactions: ["phone"],
+    }, phone)
+  }
+})
+
+Deno.test("leaves ranges, amounts and dates alone", () => {
+  const notPhones = [
+    "We budget 1500 - 2000 a month for tooling.",
+    "Somewhere in the 1500-2000 range.",
+    "Our budget is $1,500,000 this year.",
+    "About 1 500 000 users signed up.",
+    "We raised 2500000000 in total.",
+    "Revenue went from 1200000 to 1800000.",
+    "It shipped on 2024-03-15 and again on 15.03.2024.",
+    "Order 12345678 arrived late.",
+  ]
+  for (const text of notPhones) {
+    assertEquals(redactText(text, PHONE_ONLY), { text, redactions: [] }, text)
+  }
+})
@@ -0,0 +1,150 @@
+// PII redaction for respondent messages. Settings are stored as JSON on
+// projects.redaction_settings; ai-interviewer redacts each answer before it is
+// stored or sent to the model, and insight processing redacts the transcript
+// again so interviews saved before a setting changed are covered too.
+
+export const REDACTION_CATEGORIES = ["email", "phone", "payment_card", "name"] as const
+
+export type RedactionCategory = typeof REDACTION_CATEGORIES[number]
+
+// What was removed from a message, stored on conversations.redactions
+export type RedactionKind = RedactionCategory | "custom_term"
+
+export const REDACTION_KIND_LABELS: Record<RedactionKind, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  payment_card: "Card numbers",
+  name: "Self-introduced names",
+  custom_term: "Custom terms",
+}
+
+export const REDACTION_CATEGORY_DESCRIPTIONS: Record<RedactionCategory, string> = {
+  email: "Anything shaped like name@example.com.",
+  phone: "Numbers written like a phone number, e.g. +44 20 7946 0958 or (555) 123-4567.",
+  payment_card: "Card numbers that pass the Luhn checksum.",
+  name: 'Names after phrases like "my name is" or "call me".',
+}
+
+export interface RedactionSettings {
+  categories: RedactionCategory[]
+  // Matched case-insensitively as whole words, e.g. customer or employee names
+  customTerms: string[]
+  // How long the unredacted text is kept for workspace owners; 0 keeps nothing
+  originalsRetentionDays: number
+}
+
+export const REDACTION_LIMITS = {
+  customTerms: 100,
+  customTermLength: 100,
+  originalsRetentionDays: 365,
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  categories: ["email", "phone", "payment_card"],
+  customTerms: [],
+  originalsRetentionDays: 30,
+}
+
+// Fills in defaults for partial or hand-edited settings.
+export const resolveRedactionSettings = (raw: Partial<RedactionSettings> | null | undefined): RedactionSettings => {
+  const retention = raw?.originalsRetentionDays
+  return {
+    categories: Array.isArray(raw?.categories)
+      ? REDACTION_CATEGORIES.filter(category => raw.categories!.includes(category))
+      : DEFAULT_REDACTION_SETTINGS.categories,
+    customTerms: Array.isArray(raw?.customTerms)
+      ? [...new Set(raw.customTerms.filter(term => typeof term === "string").map(term => term.trim()).filter(Boolean))]
+        .slice(0, REDACTION_LIMITS.customTerms)
+      : DEFAULT_REDACTION_SETTINGS.customTerms,
+    originalsRetentionDays: typeof retention === "number" && Number.isFinite(retention)
+      ? Math.min(Math.max(Math.floor(retention), 0), REDACTION_LIMITS.originalsRetentionDays)
+      : DEFAULT_REDACTION_SETTINGS.originalsRetentionDays,
+  }
+}
+
+export const redactionPlaceholder = (kind: RedactionKind) => kind === "custom_term" ? "[redacted]" : `[${kind.replace("_", " ")} redacted]`
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+// Only phone-shaped numbers, so ranges ("1500 - 2000", "1500-2000"), amounts
+// ("$1,500,000", "1 500 000", "2500000000") and dates ("2024-03-15") are left alone:
+//   +44 20 7946 0958, +1 (555) 123-4567   a leading + and country code
+//   (555) 123-4567, (020) 7946 0958        a bracketed area code
+//   555-123-4567, 555.123.4567             3-3-4 groups, optionally after a 1
+//   020 7946 0958, 07700 900123            national numbers with a trunk 0
+const PHONE_SHAPES = [
+  /\+\d{1,3}(?:[\s.-]?(?:\(\d{1,5}\)|\d{1,5})){2,5}/,
+  /\(\d{2,5}\)\s?\d{3,4}[\s.-]?\d{3,4}/,
+  /(?:1[\s.-])?(?:\d{3}-\d{3}-\d{4}|\d{3}\.\d{3}\.\d{4}|\d{3} \d{3} \d{4})/,
+  /0\d{2,4}[\s-]?\d{3,4}[\s-]?\d{3,4}/,
+]
+const PHONE_PATTERN = new RegExp(
+  `(?<![\\w+$€£¥.,])(?:${PHONE_SHAPES.map(shape => shape.source).join("|")})(?!\\w|[.,]\\d)`,
+  "g",
+)
+const CARD_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g
+// Only capitalised words after the phrase, so "my name is not important" is left alone
+const NAME_PATTERN = /\b([Mm]y name is|[Mm]y name's|[Cc]all me|I am called)\s+(\p{Lu}[\p{L}'-]+(?:\s+\p{Lu}[\p{L}'-]+)?)/gu
+
+const digitCount = (value: string) => value.replace(/\D/g, "").length
+
+const passesLuhn = (value: string) => {
+  const digits = value.replace(/\D/g, "")
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Whole-word boundaries only where the term starts or ends with a word character
+const customTermPattern = (term: string) => {
+  const start = /^\w/.test(term) ? "\\b" : ""
+  const end = /\w$/.test(term) ? "\\b" : ""
+  return new RegExp(`${start}${escapeRegExp(term)}${end}`, "gi")
+}
+
+export interface RedactionResult {
+  text: string
+  redactions: RedactionKind[]
+}
+
+// Card numbers run before phone numbers, which would otherwise claim them.
+export const redactText = (text: string, settings: RedactionSettings): RedactionResult => {
+  const found = new Set<RedactionKind>()
+  let result = text
+
+  const replace = (kind: RedactionKind, pattern: RegExp, accept: (match: string) => boolean = () => true) => {
+    result = result.replace(pattern, (match) => {
+      if (!accept(match)) return match
+      found.add(kind)
+      return redactionPlaceholder(kind)
+    })
+  }
+
+  if (settings.categories.includes("email")) replace("email", EMAIL_PATTERN)
+  if (settings.categories.includes("payment_card")) replace("payment_card", CARD_PATTERN, passesLuhn)
+  if (settings.categories.includes("phone")) {
+    replace("phone", PHONE_PATTERN, match => digitCount(match) >= 7 && digitCount(match) <= 15)
+  }
+  if (settings.categories.includes("name")) {
+    result = result.replace(NAME_PATTERN, (_match, phrase: string) => {
+      found.add("name")
+      return `${phrase} ${redactionPlaceholder("name")}`
+    })
+  }
+  for (const term of settings.customTerms) {
+    replace("custom_term", customTermPattern(term))
+  }
+
+  return { text: result, redactions: [...found] }
+}
+
+export const parseRedactions = (value: unknown): RedactionKind[] =>
+  Array.isArray(value) ? [...REDACTION_CATEGORIES, "custom_term" as const].filter(kind => value.includes(kind)) : []
@@ -0,0 +1,100 @@
+// Per-project respondent screener, asked before the interview starts. Stored
+// as JSON on projects.screener; the answers are stored on the interview. The
+// qualify rules are mirrored by the screener_qualifies database function,
+// which refuses interviews from respondents who don't qualify. Respondents
+// only get each question's text and choices (see get_interview_project), so
+// their page can tell whether every question is answered but not who qualifies.
+
+export const SCREENER_QUESTION_TYPES = ["multiple_choice", "numeric", "yes_no"] as const
+
+export type ScreenerQuestionType = typeof SCREENER_QUESTION_TYPES[number]
+
+export interface ScreenerQuestion {
+  id: string
+  text: string
+  type: ScreenerQuestionType
+  // multiple_choice: the choices shown, and the ones that qualify. No
+  // qualifying options means every choice qualifies.
+  options?: string[]
+  qualifyingOptions?: string[]
+  // numeric: the inclusive qualifying range; either bound may be left open
+  min?: number | null
+  max?: number | null
+  // yes_no: the answer that qualifies, or null to accept either
+  qualifyingAnswer?: boolean | null
+}
+
+export interface Screener {
+  questions: ScreenerQuestion[]
+}
+
+export type ScreenerAnswer = string | number | boolean
+
+export type ScreenerAnswers = Record<string, ScreenerAnswer>
+
+export const SCREENER_QUESTION_TYPE_LABELS: Record<ScreenerQuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  numeric: "Number",
+  yes_no: "Yes / no",
+}
+
+export const getScreenerQuestions = (screener: Screener | null | undefined): ScreenerQuestion[] =>
+  Array.isArray(screener?.questions) ? screener.questions.filter(q => q && q.id && q.text) : []
+
+// Whether an answer has the right shape for its question, e.g. one of the
+// listed choices for a multiple choice question.
+export const isValidAnswer = (question: ScreenerQuestion, answer: ScreenerAnswer | undefined): answer is ScreenerAnswer => {
+  switch (question.type) {
+    case "multiple_choice":
+      return typeof answer === "string" && (question.options ?? []).includes(answer)
+    case "numeric":
+      return typeof answer === "number" && Number.isFinite(answer)
+    case "yes_no":
+      return typeof answer === "boolean"
+    default:
+      return false
+  }
+}
+
+export const answerQualifies = (question: ScreenerQuestion, answer: ScreenerAnswer): boolean => {
+  switch (question.type) {
+    case "multiple_choice":
+      return !question.qualifyingOptions?.length || question.qualifyingOptions.includes(answer as string)
+    case "numeric":
+      return (question.min == null || (answer as number) >= question.min) &&
+        (question.max == null || (answer as number) <= question.max)
+    case "yes_no":
+      return question.qualifyingAnswer == null || answer === question.qualifyingAnswer
+    default:
+      return true
+  }
+}
+
+// Null while any question is unanswered; otherwise whether every answer qualifies.
+export const evaluateScreener = (screener: Screener | null | undefined, answers: ScreenerAnswers): boolean | null => {
+  const questions = getScreenerQuestions(screener)
+  if (questions.some(q => !isValidAnswer(q, answers[q.id]))) return null
+  return questions.every(q => answerQualifies(q, answers[q.id]))
+}
+
+// Plain-language summary of a question's qualify rule, for founders
+export const describeQualifyRule = (question: ScreenerQuestion): string => {
+  switch (question.type) {
+    case "multiple_choice":
+      return question.qualifyingOptions?.length
+        ? `Qualifies: ${question.qualifyingOptions.join(", ")}`
+        : "Any choice qualifies"
+    case "numeric":
+      if (question.min != null && question.max != null) return `Qualifies: ${question.min} to ${question.max}`
+      if (question.min != null) return `Qualifies: ${question.min} or more`
+      if (question.max != null) return `Qualifies: ${question.max} or less`
+      return "Any number qualifies"
+    case "yes_no":
+      return question.qualifyingAnswer == null ? "Either answer qualifies" : `Qualifies: ${question.qualifyingAnswer ? "Yes" : "No"}`
+    default:
+      return ""
+  }
+}
+
+export const formatScreenerAnswer = (answer: ScreenerAnswer | undefined): string =>
+  answer === undefined ? "—" : typeof answer === "boolean" ? (answer ? "Yes" : "No") : String(answer)
@@ -0,0 +1,29 @@
+// Membership checks for edge functions that act on a workspace. Functions use
+// the service role key, so RLS doesn't apply and roles are checked here.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { HttpError } from "./http.ts"
+import { WORKSPACE_ROLE_LABELS, hasWorkspaceRole, isWorkspaceRole, type WorkspaceRole } from "./workspaces.ts"
+
+export const requireWorkspaceRole = async (
+  supabase: SupabaseClient,
+  workspaceId: string | undefined,
+  userId: string,
+  minRole: WorkspaceRole,
+): Promise<WorkspaceRole> => {
+  if (!workspaceId) throw new HttpError(400, "Missing required field: workspaceId")
+
+  const { data: membership, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to look up workspace membership: ${error.message}`)
+  // Non-members get the same answer as for a workspace that doesn't exist
+  if (!membership || !isWorkspaceRole(membership.role)) throw new HttpError(404, "Workspace not found")
+  if (!hasWorkspaceRole(membership.role, minRole)) {
+    throw new HttpError(403, `This requires the ${WORKSPACE_ROLE_LABELS[minRole]} role in the workspace`)
+  }
+  return membership.role
+}
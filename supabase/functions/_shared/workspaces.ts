@@ -0,0 +1,25 @@
+// Workspace roles, shared by the dashboard and the edge functions. The database
+// enforces the same ordering in has_workspace_role().
+
+export const WORKSPACE_ROLES = ["viewer", "editor", "owner"] as const
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+}
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Manages members and billing",
+  editor: "Creates and runs projects",
+  viewer: "Reads interviews and insights",
+}
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  typeof value === "string" && (WORKSPACE_ROLES as readonly string[]).includes(value)
+
+// Whether `role` includes everything `minRole` may do
+export const hasWorkspaceRole = (role: WorkspaceRole | null | undefined, minRole: WorkspaceRole) =>
+  !!role && WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minRole)
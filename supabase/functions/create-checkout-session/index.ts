@@ -1,62 +1,48 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
 import Stripe from "npm:stripe@^14.21.0"
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { HttpError, createHandler, jsonResponse, readJson } from "../_shared/http.ts"
+import { requireWorkspaceRole } from "../_shared/workspaceAccess.ts"
 
 const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
   apiVersion: "2023-10-16",
 })
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { 
-      headers: { 
-        "Access-Control-Allow-Origin": "*", 
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
-        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-      } 
-    })
-  }
-
-  try {
-    const { priceId, userId, userEmail } = await req.json()
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    if (!priceId || !userId) {
-      return new Response(JSON.stringify({ error: "Missing required fields: priceId, userId" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-      })
-    }
+serve(createHandler({ name: "create-checkout-session", auth: "user" }, async ({ req, user }) => {
+  const { priceId, workspaceId } = await readJson<{ priceId?: string; workspaceId?: string }>(req)
 
-    // Get the origin for redirect URLs
-    const origin = req.headers.get("origin") || "https://ai-customer-interview-tool-s1docb5e.live.blink.new"
-
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ["card"],
-      line_items: [
-        {
-          price: priceId,
-          quantity: 1,
-        },
-      ],
-      mode: "subscription",
-      success_url: `${origin}/dashboard?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${origin}/pricing`,
-      client_reference_id: userId, // Link this checkout to our user
-      customer_email: userEmail, // Pre-fill email if available
-      metadata: {
-        userId: userId,
-      },
-      allow_promotion_codes: true,
-    })
-
-    return new Response(JSON.stringify({ sessionId: session.id, url: session.url }), {
-      headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-    })
-
-  } catch (error: unknown) {
-    console.error("Error creating checkout session:", error)
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Failed to create checkout session" }), {
-      status: 500,
-      headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-    })
+  if (!priceId) {
+    throw new HttpError(400, "Missing required field: priceId")
   }
-})
\ No newline at end of file
+  // Plans belong to a workspace, and only its owners manage billing
+  await requireWorkspaceRole(supabase, workspaceId, user.id, "owner")
+
+  // Get the origin for redirect URLs
+  const origin = req.headers.get("origin") || "https://ai-customer-interview-tool-s1docb5e.live.blink.new"
+
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ["card"],
+    line_items: [
+      {
+        price: priceId,
+        quantity: 1,
+      },
+    ],
+    mode: "subscription",
+    success_url: `${origin}/dashboard?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${origin}/pricing`,
+    client_reference_id: workspaceId, // Link this checkout to the workspace being billed
+    customer_email: user.email, // Pre-fill email if available
+    metadata: {
+      workspaceId: workspaceId!,
+      userId: user.id,
+    },
+    allow_promotion_codes: true,
+  })
+
+  return jsonResponse({ sessionId: session.id, url: session.url })
+}))
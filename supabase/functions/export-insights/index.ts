@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { FEATURE_LABELS, PLANS, getEntitlements, hasFeature, planForFeature } from "../_shared/entitlements.ts"
+import { HttpError, corsHeaders, createHandler, readJson } from "../_shared/http.ts"
+import { requireWorkspaceRole } from "../_shared/workspaceAccess.ts"
+import type { ExecutiveSummary, NotableQuote, Objection, PainPoint, ProductIdea } from "../_shared/insightSchema.ts"
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+interface InsightRow {
+  project_id: string
+  interview_id: string | null
+  created_at: string
+  key_learnings: Partial<ExecutiveSummary> | null
+  pain_points: Partial<PainPoint>[] | null
+  quotes: Partial<NotableQuote>[] | null
+  objections: Partial<Objection>[] | null
+  product_ideas: Partial<ProductIdea>[] | null
+  projects: { title: string } | null
+}
+
+const CSV_COLUMNS = ["project", "interview_id", "date", "type", "text", "detail", "message_ids"]
+
+// Respondent text that starts like a formula would run when the export is
+// opened in Excel or Sheets, so it is prefixed with a quote to keep it text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const csvCell = (value: unknown) => {
+  const raw = value === null || value === undefined ? "" : String(value)
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+// One row per finding, so the export can be filtered and pivoted in a spreadsheet
+const toCsv = (insights: InsightRow[]) => {
+  const rows: unknown[][] = []
+  for (const insight of insights) {
+    const base = [insight.projects?.title ?? "", insight.interview_id ?? "", insight.created_at]
+    const summary = insight.key_learnings
+    if (summary?.whatWeLearned) rows.push([...base, "what_we_learned", summary.whatWeLearned, "", ""])
+    if (summary?.whatToBuildNext) rows.push([...base, "what_to_build_next", summary.whatToBuildNext, "", ""])
+    for (const p of insight.pain_points ?? []) rows.push([...base, "pain_point", p.point, p.severity, p.messageIds?.join(" ")])
+    for (const q of insight.quotes ?? []) rows.push([...base, "quote", q.quote, q.sentiment, q.messageIds?.join(" ")])
+    for (const o of insight.objections ?? []) rows.push([...base, "objection", o.objection, o.type, o.messageIds?.join(" ")])
+    for (const i of insight.product_ideas ?? []) rows.push([...base, "product_idea", i.idea, i.source, ""])
+  }
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+serve(createHandler({ name: "export-insights", auth: "user" }, async ({ req, user }) => {
+  const { workspaceId, projectId } = await readJson<{ workspaceId?: string; projectId?: string }>(req)
+  await requireWorkspaceRole(supabase, workspaceId, user.id, "viewer")
+
+  // Export is a paid feature of the workspace's plan: checked here, not just hidden in the UI
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('plan_type, status')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
+
+  if (!hasFeature(getEntitlements(subscription), "export")) {
+    const requiredPlan = planForFeature("export")
+    throw new HttpError(403, `${FEATURE_LABELS.export} is available on the ${PLANS[requiredPlan].name} plan`, { requiredPlan })
+  }
+
+  let query = supabase
+    .from('insights')
+    .select('project_id, interview_id, created_at, key_learnings, pain_points, quotes, objections, product_ideas, projects!inner(title)')
+    .eq('projects.workspace_id', workspaceId)
+    .order('created_at', { ascending: true })
+  if (projectId) query = query.eq('project_id', projectId)
+
+  const { data: insights, error: insightsError } = await query
+  if (insightsError) throw new Error(`Failed to fetch insights: ${insightsError.message}`)
+
+  return new Response(toCsv((insights ?? []) as unknown as InsightRow[]), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="insights-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  })
+}))
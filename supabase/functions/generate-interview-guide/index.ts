@@ -1,9 +1,10 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
-import { OpenAI } from "npm:openai@^4.52.7"
+import { getLlm } from "../_shared/llm/index.ts"
+import { HttpError, createHandler, jsonResponse, readJson } from "../_shared/http.ts"
+import { GUIDE_QUESTION_TYPES, getGuideQuestions, type InterviewGuide } from "../_shared/interviewGuide.ts"
 
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY")
-const openai = new OpenAI({ apiKey: OPENAI_API_KEY })
+const llm = getLlm("generate-interview-guide", "fast") // The fast tier keeps guide generation quick while the founder waits
 
 const generateGuidePrompt = (productIdeaPrompt: string) => {
   return `
@@ -19,7 +20,7 @@ const generateGuidePrompt = (productIdeaPrompt: string) => {
     Each question object should have:
     - "id": A unique string identifier (e.g., "q1", "q2").
     - "text": The full question text (string).
-    - "type": The type of question (e.g., "open_ended", "pain_discovery", "solution_probing", "closing").
+    - "type": The type of question, one of: ${GUIDE_QUESTION_TYPES.join(", ")}.
     
     The first question should be a warm, open-ended icebreaker. 
     Subsequent questions should dig into potential pain points, current solutions, and desired outcomes related to the product idea.
@@ -30,66 +31,108 @@ const generateGuidePrompt = (productIdeaPrompt: string) => {
   `
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { 
-      headers: { 
-        "Access-Control-Allow-Origin": "*", 
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
-        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-      } 
-    })
-  }
+// Rewrites one question of an existing guide, keeping its place in the flow.
+const regenerateQuestionPrompt = (productIdeaPrompt: string, guide: InterviewGuide, questionId: string) => {
+  const questions = getGuideQuestions(guide)
+  const guideText = questions
+    .map((q, index) => `${index + 1}. [${q.type}]${q.id === questionId ? " (REWRITE THIS ONE)" : ""} ${q.text}`)
+    .join("\n")
+  const target = questions.find(q => q.id === questionId)
 
-  try {
-    const { productIdeaPrompt } = await req.json()
+  return `
+    You are an expert customer interview designer improving one question of an interview guide.
+    --- PRODUCT IDEA & GOALS ---
+    ${productIdeaPrompt}
+    --- END PRODUCT IDEA & GOALS ---
 
-    if (!productIdeaPrompt) {
-      return new Response(JSON.stringify({ error: "Missing required field: productIdeaPrompt" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-      })
-    }
+    Current guide:
+    ${guideText}
+
+    Write a fresh alternative for the question marked REWRITE THIS ONE. Keep its purpose
+    (type "${target?.type ?? "open_ended"}") and its place in the flow, avoid overlapping with the other questions,
+    and keep it conversational.
+
+    Output a valid JSON object only, shaped as:
+    { "question": { "text": string, "type": one of ${GUIDE_QUESTION_TYPES.join(", ")} } }
+  `
+}
+
+// Only founders generate guides, so the model isn't open to anonymous callers.
+serve(createHandler({ name: "generate-interview-guide", auth: "user" }, async ({ req }) => {
+  const { productIdeaPrompt, regenerate } = await readJson<{
+    productIdeaPrompt?: string
+    regenerate?: { guide: InterviewGuide; questionId: string }
+  }>(req)
+
+  if (!productIdeaPrompt) {
+    throw new HttpError(400, "Missing required field: productIdeaPrompt")
+  }
 
-    const prompt = generateGuidePrompt(productIdeaPrompt)
+  if (regenerate) {
+    const target = getGuideQuestions(regenerate.guide).find(q => q.id === regenerate.questionId)
+    if (!target) {
+      throw new HttpError(400, "Question to regenerate was not found in the guide")
+    }
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4.1-nano", // Can use gpt-4.1 for more nuanced questions if needed
+    const rawQuestion = await llm.complete({
+      task: "interview-guide-question",
       messages: [
         { role: "system", content: "You are an expert interview guide designer. Output JSON only." },
-        { role: "user", content: prompt },
+        { role: "user", content: regenerateQuestionPrompt(productIdeaPrompt, regenerate.guide, target.id) },
       ],
-      temperature: 0.5,
-      response_format: { type: "json_object" },
-      max_tokens: 1000, 
+      temperature: 0.8,
+      json: true,
+      maxTokens: 300,
     })
 
-    const rawResponse = completion.choices[0]?.message?.content
-    if (!rawResponse) {
-      throw new Error("OpenAI returned an empty response for interview guide.")
-    }
-
-    let guideJson
+    let parsed
     try {
-      guideJson = JSON.parse(rawResponse)
-      // Basic validation of the structure
-      if (!guideJson.questions || !Array.isArray(guideJson.questions)) {
-        throw new Error("Generated guide is missing 'questions' array.")
-      }
+      parsed = JSON.parse(rawQuestion || "{}")
     } catch (parseError: unknown) {
-      console.error("Failed to parse OpenAI JSON response for guide:", rawResponse, parseError)
-      throw new Error(`OpenAI response for guide was not valid JSON. Error: ${parseError instanceof Error ? parseError.message : 'Unknown parse error'}`)
+      console.error(`Failed to parse ${llm.provider} JSON response for question:`, rawQuestion, parseError)
+      throw new HttpError(502, `${llm.provider} response for the question was not valid JSON. Please try again.`)
+    }
+    if (typeof parsed.question?.text !== "string" || !parsed.question.text.trim()) {
+      throw new HttpError(502, "Regenerated question is missing its text. Please try again.")
     }
 
-    return new Response(JSON.stringify(guideJson), {
-      headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+    return jsonResponse({
+      question: {
+        ...target,
+        text: parsed.question.text.trim(),
+        type: GUIDE_QUESTION_TYPES.includes(parsed.question.type) ? parsed.question.type : target.type,
+      },
     })
+  }
 
-  } catch (error: unknown) {
-    console.error("Error in generate-interview-guide function:", error)
-    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Failed to generate interview guide" }), {
-      status: 500,
-      headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
-    })
+  const prompt = generateGuidePrompt(productIdeaPrompt)
+
+  const rawResponse = await llm.complete({
+    task: "interview-guide",
+    messages: [
+      { role: "system", content: "You are an expert interview guide designer. Output JSON only." },
+      { role: "user", content: prompt },
+    ],
+    temperature: 0.5,
+    json: true,
+    maxTokens: 1000,
+  })
+
+  if (!rawResponse) {
+    throw new Error(`${llm.provider} returned an empty response for interview guide.`)
   }
-})
+
+  let guideJson
+  try {
+    guideJson = JSON.parse(rawResponse)
+    // Basic validation of the structure
+    if (!guideJson.questions || !Array.isArray(guideJson.questions)) {
+      throw new Error("Generated guide is missing 'questions' array.")
+    }
+  } catch (parseError: unknown) {
+    console.error(`Failed to parse ${llm.provider} JSON response for guide:`, rawResponse, parseError)
+    throw new HttpError(502, `${llm.provider} response for guide was not valid JSON. Error: ${parseError instanceof Error ? parseError.message : 'Unknown parse error'}`)
+  }
+
+  return jsonResponse(guideJson)
+}))
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { FEATURE_LABELS, PLANS, getEntitlements, hasFeature, planForFeature } from "../_shared/entitlements.ts"
+import { HttpError, createHandler, jsonResponse, readJson } from "../_shared/http.ts"
+import { requireWorkspaceRole } from "../_shared/workspaceAccess.ts"
+import { isWorkspaceRole } from "../_shared/workspaces.ts"
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+interface InviteRequest {
+  workspaceId?: string
+  email?: string
+  role?: string
+}
+
+// Members plus pending invitations, so invites can't overshoot the plan's seats
+const countSeatsInUse = async (workspaceId: string) => {
+  const [{ count: members, error: membersError }, { count: pending, error: pendingError }] = await Promise.all([
+    supabase.from('workspace_members').select('user_id', { count: 'exact', head: true }).eq('workspace_id', workspaceId),
+    supabase
+      .from('workspace_invitations')
+      .select('id', { count: 'exact', head: true })
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null),
+  ])
+  if (membersError || pendingError) {
+    throw new Error(`Failed to count workspace seats: ${(membersError ?? pendingError)!.message}`)
+  }
+  return (members ?? 0) + (pending ?? 0)
+}
+
+serve(createHandler({ name: "invite-workspace-member", auth: "user" }, async ({ req, user }) => {
+  const { workspaceId, email: rawEmail, role } = await readJson<InviteRequest>(req)
+  const email = rawEmail?.trim().toLowerCase()
+
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, "A valid email address is required")
+  }
+  if (!isWorkspaceRole(role)) {
+    throw new HttpError(400, "Role must be owner, editor or viewer")
+  }
+  await requireWorkspaceRole(supabase, workspaceId, user.id, "owner")
+
+  // Team collaboration and the seat count come from the workspace's plan
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('plan_type, status')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
+  const entitlements = getEntitlements(subscription)
+
+  if (!hasFeature(entitlements, "teamCollaboration")) {
+    const requiredPlan = planForFeature("teamCollaboration")
+    throw new HttpError(403, `${FEATURE_LABELS.teamCollaboration} is available on the ${PLANS[requiredPlan].name} plan`, { requiredPlan })
+  }
+  if (await countSeatsInUse(workspaceId!) >= entitlements.teamSeats) {
+    throw new HttpError(403, `Your plan includes ${entitlements.teamSeats} seats, and they are all taken or invited`, {
+      teamSeats: entitlements.teamSeats,
+    })
+  }
+
+  const { data: invitation, error: insertError } = await supabase
+    .from('workspace_invitations')
+    .insert({ workspace_id: workspaceId, email, role, invited_by: user.id })
+    .select('id, email, role, created_at')
+    .single()
+
+  if (insertError?.code === "23505") {
+    throw new HttpError(409, `${email} has already been invited`)
+  }
+  if (insertError || !invitation) throw new Error(`Failed to create invitation: ${insertError?.message}`)
+
+  // New users get a sign-up email. Existing users find the invitation on
+  // their dashboard, so a failure here (e.g. already registered) isn't fatal.
+  const origin = req.headers.get("origin") || "https://ai-customer-interview-tool-s1docb5e.live.blink.new"
+  const { error: emailError } = await supabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo: `${origin}/dashboard`,
+  })
+  if (emailError) console.log(`Invitation email not sent to ${email}: ${emailError.message}`)
+
+  return jsonResponse({ invitation, emailSent: !emailError })
+}))
@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { deriveProgress, type GuideProgress, type InterviewGuide } from "../_shared/interviewGuide.ts"
+import { HttpError, createHandler, jsonResponse, readJson } from "../_shared/http.ts"
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+// Respondents are anonymous; the resume token stored in their browser is what
+// ties them to an interview.
+serve(createHandler({ name: "resume-interview", auth: "public" }, async ({ req }) => {
+  const { projectId, resumeToken } = await readJson<{ projectId?: string; resumeToken?: string }>(req)
+
+  if (!projectId || !resumeToken) {
+    throw new HttpError(400, "Missing required fields: projectId, resumeToken")
+  }
+
+  // Only sessions still in progress can be resumed; abandoned or completed
+  // interviews start over with a fresh row.
+  const { data: interview, error: interviewError } = await supabase
+    .from('interviews')
+    .select('id, project_id, started_at, guide_version_id, guide_progress, projects(interview_guide), interview_guide_versions(guide)')
+    .eq('resume_token', resumeToken)
+    .eq('project_id', projectId)
+    .eq('status', 'started')
+    .maybeSingle()
+
+  if (interviewError || !interview) {
+    throw new HttpError(404, "No resumable interview found")
+  }
+
+  const { data: conversation, error: conversationError } = await supabase
+    .from('conversations')
+    .select('id, sender_type, content, question_id, created_at')
+    .eq('interview_id', interview.id)
+    .order('id', { ascending: true })
+
+  if (conversationError) throw new Error(conversationError.message)
+
+  await supabase
+    .from('interviews')
+    .update({ last_activity_at: new Date().toISOString() })
+    .eq('id', interview.id)
+
+  const messages = (conversation || []).map((row) => ({
+    id: String(row.id),
+    type: row.sender_type === 'ai' ? 'ai' : 'user',
+    content: row.content,
+    timestamp: row.created_at,
+    questionId: row.question_id,
+  }))
+  // Continue on the guide version the interview started with; interviews from
+  // before versioning fall back to the project's current guide.
+  const project = interview.projects as unknown as { interview_guide: InterviewGuide | null } | null
+  const version = interview.interview_guide_versions as unknown as { guide: InterviewGuide } | null
+  const guide = version?.guide ?? project?.interview_guide ?? null
+  const guideProgress = (interview.guide_progress as GuideProgress | null) ?? deriveProgress(guide, messages)
+
+  return jsonResponse({
+    interviewId: interview.id,
+    startedAt: interview.started_at,
+    messages,
+    guideProgress,
+    guide,
+    guideVersionId: interview.guide_version_id,
+  })
+}))
@@ -0,0 +1,194 @@
+// Manual smoke test: replays the recorded Stripe events in this directory
+// against a locally served stripe-webhook, signed with the local
+// STRIPE_WEBHOOK_SECRET, and checks the resulting database state. It needs a
+// running local stack; ../handler.test.ts covers the same cases automatically
+// against an in-memory database.
+//
+//   supabase start
+//   supabase functions serve stripe-webhook --env-file supabase/functions/.env --no-verify-jwt
+//   FIXTURE_USER_ID=<auth user uuid> FIXTURE_WORKSPACE_ID=<a workspace they own> \
+//   SUPABASE_URL=<local api url> SUPABASE_SERVICE_ROLE_KEY=<local service role key> \
+//     deno run --allow-net --allow-read --allow-env supabase/functions/stripe-webhook/fixtures/replay.ts [webhook url]
+//
+// The fixture workspace's subscription and the fixture events are reset first.
+// Every fixture is sent twice: the second delivery must be acknowledged
+// without being applied again. Finally an event from an earlier billing
+// period is delivered late and must not change anything.
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { PLANS } from "../../_shared/entitlements.ts"
+
+const webhookUrl = Deno.args[0] || "http://127.0.0.1:54321/functions/v1/stripe-webhook"
+const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET")
+const userId = Deno.env.get("FIXTURE_USER_ID")
+const workspaceId = Deno.env.get("FIXTURE_WORKSPACE_ID")
+const supabaseUrl = Deno.env.get("SUPABASE_URL")
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")
+
+if (!secret || !userId || !workspaceId || !supabaseUrl || !supabaseServiceKey) {
+  console.error("Set STRIPE_WEBHOOK_SECRET (matching the served function), FIXTURE_USER_ID, FIXTURE_WORKSPACE_ID, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY")
+  Deno.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const SUBSCRIPTION_ID = "sub_fixture_1"
+const ROLLOVER_PERIOD_START = "2025-11-20T00:00:00+00:00"
+
+interface SubscriptionState {
+  plan_type: string | null
+  response_limit: number | null
+  responses_used: number
+  status: string | null
+  current_period_start: string | null
+  stripe_price_id: string | null
+  latest_invoice_status: string | null
+  cancel_at_period_end: boolean
+}
+
+// The column each event type writes, overwritten between the two deliveries
+// to show whether the redelivery was applied again
+const SENTINEL_COLUMNS: Record<string, "stripe_price_id" | "latest_invoice_status"> = {
+  "checkout.session.completed": "stripe_price_id",
+  "customer.subscription.updated": "stripe_price_id",
+  "customer.subscription.deleted": "stripe_price_id",
+  "invoice.paid": "latest_invoice_status",
+  "invoice.payment_failed": "latest_invoice_status",
+}
+const SENTINEL = "replay_sentinel"
+
+// Responses recorded before a fixture is delivered, to check the period rollover
+const SEED_RESPONSES_USED: Record<string, number> = {
+  "06_subscription_updated_past_due_rollover.json": 3,
+  "07_subscription_updated_cancel_at_period_end.json": 5,
+}
+
+// State expected once a fixture has been delivered twice
+const EXPECTED: Record<string, Partial<SubscriptionState>> = {
+  "01_checkout_session_completed.json": { plan_type: "starter", response_limit: PLANS.starter.responseLimit, status: "trialing", responses_used: 0 },
+  "02_subscription_trial_will_end.json": { plan_type: "starter", status: "trialing" },
+  "03_invoice_paid.json": { latest_invoice_status: "paid" },
+  "04_subscription_updated_plan_change.json": { plan_type: "pro", response_limit: PLANS.pro.responseLimit, status: "active" },
+  "05_invoice_payment_failed.json": { latest_invoice_status: "open" },
+  "06_subscription_updated_past_due_rollover.json": { status: "past_due", responses_used: 0, current_period_start: ROLLOVER_PERIOD_START },
+  "07_subscription_updated_cancel_at_period_end.json": { status: "active", cancel_at_period_end: true, responses_used: 5 },
+  "08_subscription_deleted.json": { status: "canceled", plan_type: "pro", response_limit: PLANS.pro.responseLimit, responses_used: 5 },
+}
+
+let failures = 0
+const check = (ok: boolean, message: string) => {
+  console.log(`${ok ? "ok  " : "FAIL"} ${message}`)
+  if (!ok) failures++
+}
+
+// Same scheme Stripe uses: t=<unix seconds>,v1=HMAC-SHA256(secret, "<t>.<payload>")
+const signPayload = async (payload: string, signingSecret: string) => {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(signingSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${payload}`))
+  const hex = [...new Uint8Array(mac)].map(byte => byte.toString(16).padStart(2, "0")).join("")
+  return `t=${timestamp},v1=${hex}`
+}
+
+const deliver = async (label: string, payload: string) => {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "stripe-signature": await signPayload(payload, secret) },
+    body: payload,
+  })
+  const text = await response.text()
+  check(response.ok, `${label}: ${response.status} ${text}`)
+}
+
+const readSubscription = async (): Promise<SubscriptionState | null> => {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('plan_type, response_limit, responses_used, status, current_period_start, stripe_price_id, latest_invoice_status, cancel_at_period_end')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to read subscription: ${error.message}`)
+  return data
+}
+
+const updateSubscription = async (values: Partial<SubscriptionState>) => {
+  const { error } = await supabase.from('subscriptions').update(values).eq('workspace_id', workspaceId)
+  if (error) throw new Error(`Failed to update subscription: ${error.message}`)
+}
+
+const sameValue = (actual: unknown, expected: unknown) =>
+  typeof expected === "string" && typeof actual === "string" && !Number.isNaN(Date.parse(expected))
+    ? Date.parse(actual) === Date.parse(expected)
+    : actual === expected
+
+const checkState = async (label: string, expected: Partial<SubscriptionState>) => {
+  const state = await readSubscription()
+  for (const [column, value] of Object.entries(expected)) {
+    const actual = state?.[column as keyof SubscriptionState]
+    check(sameValue(actual, value), `${label}: ${column} is ${JSON.stringify(actual)}, expected ${JSON.stringify(value)}`)
+  }
+}
+
+// Start from a clean slate so the script can be run repeatedly
+await supabase.from('stripe_events').delete().like('id', 'evt_fixture%')
+await supabase.from('subscriptions').delete().eq('workspace_id', workspaceId)
+
+const fixturesDir = new URL(".", import.meta.url)
+const fixtureNames = [...Deno.readDirSync(fixturesDir)]
+  .map(entry => entry.name)
+  .filter(name => name.endsWith(".json"))
+  .sort()
+
+const payloads = new Map<string, string>()
+for (const name of fixtureNames) {
+  const payload = (await Deno.readTextFile(new URL(name, fixturesDir)))
+    .replaceAll("{{USER_ID}}", userId)
+    .replaceAll("{{WORKSPACE_ID}}", workspaceId)
+  payloads.set(name, payload)
+  const event = JSON.parse(payload) as { id: string; type: string }
+
+  if (name in SEED_RESPONSES_USED) await updateSubscription({ responses_used: SEED_RESPONSES_USED[name] })
+
+  await deliver(`${name} (first)`, payload)
+  const { data: recorded } = await supabase.from('stripe_events').select('processed_at, attempts').eq('id', event.id).maybeSingle()
+  check(!!recorded?.processed_at && recorded.attempts === 0, `${name}: event recorded as processed`)
+
+  // Overwrite what the event writes; a redelivery that is applied again restores it
+  const column = SENTINEL_COLUMNS[event.type]
+  const before = column ? (await readSubscription())?.[column] ?? null : null
+  if (column) await updateSubscription({ [column]: SENTINEL })
+  await deliver(`${name} (redelivery)`, payload)
+  if (column) {
+    check((await readSubscription())?.[column] === SENTINEL, `${name}: redelivery was not applied again`)
+    await updateSubscription({ [column]: before })
+  }
+
+  await checkState(name, EXPECTED[name] ?? {})
+}
+
+// A plan change from the first period, delivered after the rollover under a
+// new event id, must neither reset the response count nor move the period back.
+const stalePayload = payloads.get("04_subscription_updated_plan_change.json")
+if (stalePayload) {
+  const staleEvent = JSON.parse(stalePayload)
+  staleEvent.id = "evt_fixture_stale_plan_change"
+  await deliver("late event from an earlier period", JSON.stringify(staleEvent))
+  await checkState("late event from an earlier period", {
+    status: "canceled",
+    responses_used: 5,
+    current_period_start: ROLLOVER_PERIOD_START,
+  })
+}
+
+const { data: subscription } = await supabase
+  .from('subscriptions')
+  .select('stripe_subscription_id')
+  .eq('workspace_id', workspaceId)
+  .maybeSingle()
+check(subscription?.stripe_subscription_id === SUBSCRIPTION_ID, `workspace is linked to ${SUBSCRIPTION_ID}`)
+
+Deno.exit(failures > 0 ? 1 : 0)
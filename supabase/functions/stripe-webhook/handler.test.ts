@@ -0,0 +1,282 @@
+// Replays the recorded Stripe events in fixtures/ through the webhook handler
+// against an in-memory stand-in for the two tables it writes. Run with:
+//
+//   deno test --allow-env --allow-read supabase/functions/stripe-webhook/
+import { assert, assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts"
+import Stripe from "npm:stripe@^14.21.0"
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { PLANS } from "../_shared/entitlements.ts"
+
+// _shared/http.ts creates its auth client on import
+Deno.env.set("SUPABASE_URL", Deno.env.get("SUPABASE_URL") ?? "http://127.0.0.1:54321")
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "service-role-key")
+const { createWebhookHandler } = await import("./handler.ts")
+
+const WEBHOOK_SECRET = "whsec_fixtures"
+const USER_ID = "00000000-0000-0000-0000-000000000001"
+const WORKSPACE_ID = "00000000-0000-0000-0000-0000000000a1"
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+
+type Row = Record<string, unknown>
+
+// Just enough of the supabase-js query builder for the queries the handler runs
+class FakeDatabase {
+  tables: Record<string, Row[]> = { subscriptions: [], stripe_events: [] }
+  // Every insert and update, so tests can tell whether a delivery was applied
+  writes: Array<{ table: string; values: Row }> = []
+
+  subscription() {
+    return this.tables.subscriptions[0] ?? null
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table)
+  }
+
+  rpc(name: string, args: Row) {
+    if (name !== "claim_stripe_event") throw new Error(`Unexpected rpc ${name}`)
+    const now = Date.now()
+    const events = this.tables.stripe_events
+    const existing = events.find(event => event.id === args.event_id)
+    if (!existing) {
+      events.push({ id: args.event_id, type: args.event_type, processed_at: null, claimed_at: new Date(now).toISOString(), attempts: 0, last_error: null })
+      return Promise.resolve({ data: true, error: null })
+    }
+    const leaseExpired = !existing.claimed_at || Date.parse(existing.claimed_at as string) < now - CLAIM_LEASE_MS
+    if (existing.processed_at || !leaseExpired) return Promise.resolve({ data: false, error: null })
+    existing.claimed_at = new Date(now).toISOString()
+    return Promise.resolve({ data: true, error: null })
+  }
+}
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: Array<(row: Row) => boolean> = []
+  private action: { kind: "select" } | { kind: "update"; values: Row } | { kind: "upsert"; values: Row; onConflict: string } = { kind: "select" }
+  private single = false
+  private rowLimit = Infinity
+
+  constructor(private db: FakeDatabase, private table: string) {}
+
+  // Columns are ignored; whole rows come back
+  select() {
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  // Only the "column.eq.value,column.eq.value" form the handler uses
+  or(expression: string) {
+    const conditions = expression.split(",").map(condition => {
+      const [column, operator, ...value] = condition.split(".")
+      if (operator !== "eq") throw new Error(`Unsupported filter ${condition}`)
+      return [column, value.join(".")] as const
+    })
+    this.filters.push(row => conditions.some(([column, value]) => String(row[column]) === value))
+    return this
+  }
+
+  limit(count: number) {
+    this.rowLimit = count
+    return this
+  }
+
+  maybeSingle() {
+    this.single = true
+    return this
+  }
+
+  update(values: Row) {
+    this.action = { kind: "update", values }
+    return this
+  }
+
+  upsert(values: Row, options: { onConflict: string }) {
+    this.action = { kind: "upsert", values, onConflict: options.onConflict }
+    return this
+  }
+
+  then<TResult1 = { data: unknown; error: null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected)
+  }
+
+  private run() {
+    const rows = this.db.tables[this.table]
+    const action = this.action
+    if (action.kind === "upsert") {
+      this.db.writes.push({ table: this.table, values: action.values })
+      const existing = rows.find(row => row[action.onConflict] === action.values[action.onConflict])
+      if (existing) Object.assign(existing, action.values)
+      else rows.push({ responses_used: 0, latest_invoice_status: null, payment_failed_at: null, ...action.values })
+      return { data: null, error: null }
+    }
+
+    const matches = rows.filter(row => this.filters.every(filter => filter(row))).slice(0, this.rowLimit)
+    if (action.kind === "update") {
+      if (matches.length > 0) this.db.writes.push({ table: this.table, values: action.values })
+      matches.forEach(row => Object.assign(row, action.values))
+    }
+    return { data: this.single ? matches[0] ?? null : matches, error: null }
+  }
+}
+
+// Same scheme Stripe uses: t=<unix seconds>,v1=HMAC-SHA256(secret, "<t>.<payload>")
+const signPayload = async (payload: string) => {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(WEBHOOK_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${payload}`))
+  const hex = [...new Uint8Array(mac)].map(byte => byte.toString(16).padStart(2, "0")).join("")
+  return `t=${timestamp},v1=${hex}`
+}
+
+type StripeEvent = { id: string; type: string; created: number; data: { object: Record<string, unknown> } }
+
+const loadFixture = async (name: string): Promise<StripeEvent> => {
+  const text = await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url))
+  return JSON.parse(text.replaceAll("{{USER_ID}}", USER_ID).replaceAll("{{WORKSPACE_ID}}", WORKSPACE_ID))
+}
+
+const setup = () => {
+  const db = new FakeDatabase()
+  const handler = createWebhookHandler({
+    stripe: new Stripe("sk_test_fixtures", { apiVersion: "2023-10-16" }),
+    supabase: db as unknown as SupabaseClient,
+    webhookSecret: WEBHOOK_SECRET,
+  })
+  const deliver = async (event: StripeEvent) => {
+    const payload = JSON.stringify(event)
+    const response = await handler(new Request("http://localhost/stripe-webhook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "stripe-signature": await signPayload(payload) },
+      body: payload,
+    }))
+    assertEquals(response.status, 200, await response.clone().text())
+    return response
+  }
+  return { db, deliver }
+}
+
+Deno.test("applies each recorded event once when Stripe delivers it twice", async () => {
+  const { db, deliver } = setup()
+  const names = [
+    "01_checkout_session_completed",
+    "02_subscription_trial_will_end",
+    "03_invoice_paid",
+    "04_subscription_updated_plan_change",
+    "05_invoice_payment_failed",
+    "06_subscription_updated_past_due_rollover",
+    "07_subscription_updated_cancel_at_period_end",
+    "08_subscription_deleted",
+  ]
+
+  for (const name of names) {
+    const event = await loadFixture(name)
+    await deliver(event)
+    const writesAfterFirst = db.writes.filter(write => write.table === "subscriptions").length
+
+    await deliver(event)
+    assertEquals(db.writes.filter(write => write.table === "subscriptions").length, writesAfterFirst, `${name} was applied again`)
+    const recorded = db.tables.stripe_events.find(row => row.id === event.id)
+    assert(recorded?.processed_at, `${name} was not recorded as processed`)
+  }
+
+  const subscription = db.subscription()
+  assertEquals(db.tables.subscriptions.length, 1)
+  assertEquals(subscription?.workspace_id, WORKSPACE_ID)
+  assertEquals(subscription?.stripe_subscription_id, "sub_fixture_1")
+  assertEquals(subscription?.plan_type, "pro")
+  assertEquals(subscription?.response_limit, PLANS.pro.responseLimit)
+  assertEquals(subscription?.status, "canceled")
+  assertEquals(subscription?.latest_invoice_status, "open")
+})
+
+Deno.test("ignores a subscription update from an earlier period that arrives late", async () => {
+  const { db, deliver } = setup()
+  await deliver(await loadFixture("01_checkout_session_completed"))
+  await deliver(await loadFixture("06_subscription_updated_past_due_rollover"))
+  db.subscription()!.responses_used = 3
+
+  // The plan change happened in the first period but is delivered after the rollover
+  await deliver(await loadFixture("04_subscription_updated_plan_change"))
+
+  const subscription = db.subscription()
+  assertEquals(subscription?.status, "past_due")
+  assertEquals(subscription?.responses_used, 3)
+  assertEquals(subscription?.current_period_start, "2025-11-20T00:00:00.000Z")
+})
+
+Deno.test("keeps the response count when an update arrives within the same period", async () => {
+  const { db, deliver } = setup()
+  await deliver(await loadFixture("01_checkout_session_completed"))
+  await deliver(await loadFixture("06_subscription_updated_past_due_rollover"))
+  db.subscription()!.responses_used = 5
+
+  await deliver(await loadFixture("07_subscription_updated_cancel_at_period_end"))
+
+  const subscription = db.subscription()
+  assertEquals(subscription?.status, "active")
+  assertEquals(subscription?.cancel_at_period_end, true)
+  assertEquals(subscription?.responses_used, 5)
+})
+
+Deno.test("cancels the subscription when deleted follows updated", async () => {
+  const { db, deliver } = setup()
+  await deliver(await loadFixture("01_checkout_session_completed"))
+  await deliver(await loadFixture("07_subscription_updated_cancel_at_period_end"))
+  await deliver(await loadFixture("08_subscription_deleted"))
+
+  assertEquals(db.subscription()?.status, "canceled")
+})
+
+Deno.test("does not reactivate a subscription when updated arrives after deleted", async () => {
+  const { db, deliver } = setup()
+  await deliver(await loadFixture("01_checkout_session_completed"))
+  await deliver(await loadFixture("08_subscription_deleted"))
+  await deliver(await loadFixture("07_subscription_updated_cancel_at_period_end"))
+
+  assertEquals(db.subscription()?.status, "canceled")
+})
+
+Deno.test("ignores events for an older subscription of the same customer", async () => {
+  const { db, deliver } = setup()
+  await deliver(await loadFixture("01_checkout_session_completed"))
+  await deliver(await loadFixture("04_subscription_updated_plan_change"))
+
+  const stale = await loadFixture("08_subscription_deleted")
+  stale.id = "evt_fixture_old_subscription_deleted"
+  stale.data.object.id = "sub_fixture_old"
+  await deliver(stale)
+
+  const subscription = db.subscription()
+  assertEquals(subscription?.stripe_subscription_id, "sub_fixture_1")
+  assertEquals(subscription?.status, "active")
+  assertEquals(subscription?.plan_type, "pro")
+})
+
+Deno.test("rejects a delivery with an invalid signature", async () => {
+  const db = new FakeDatabase()
+  const handler = createWebhookHandler({
+    stripe: new Stripe("sk_test_fixtures", { apiVersion: "2023-10-16" }),
+    supabase: db as unknown as SupabaseClient,
+    webhookSecret: WEBHOOK_SECRET,
+  })
+  const response = await handler(new Request("http://localhost/stripe-webhook", {
+    method: "POST",
+    headers: { "stripe-signature": "t=0,v1=invalid" },
+    body: JSON.stringify(await loadFixture("04_subscription_updated_plan_change")),
+  }))
+
+  assertEquals(response.status, 400)
+  assertEquals(db.writes.length, 0)
+})
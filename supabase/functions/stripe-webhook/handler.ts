@@ -0,0 +1,238 @@
+// The webhook's event handling. index.ts serves it with the real Stripe and
+// Supabase clients; handler.test.ts replays the recorded fixtures through it
+// against an in-memory database.
+import type Stripe from "npm:stripe@^14.21.0"
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2"
+import { PLANS, isEntitledStatus, isPlanId } from "../_shared/entitlements.ts"
+import { HttpError, createHandler, errorResponse, jsonResponse } from "../_shared/http.ts"
+
+const toIso = (seconds: number | null | undefined) => seconds ? new Date(seconds * 1000).toISOString() : null
+
+const idOf = (value: string | { id: string } | null | undefined) => typeof value === "string" ? value : value?.id ?? null
+
+// The price's metadata names the plan (plan=pro); its quota comes from the
+// shared entitlements so every part of the app agrees on it.
+const planFromPrice = (price: Stripe.Price | undefined) => {
+  const plan = price?.metadata?.plan
+  if (!isPlanId(plan)) console.warn(`Price ${price?.id} has unknown plan "${plan}", treating it as starter`)
+  const planType = isPlanId(plan) ? plan : "starter"
+  return {
+    stripe_price_id: price?.id ?? null,
+    plan_type: planType,
+    response_limit: PLANS[planType].responseLimit,
+  }
+}
+
+// The workspace a checkout pays for, and the member who started it
+interface CheckoutOwner {
+  workspaceId: string
+  userId: string | null
+}
+
+export interface WebhookDependencies {
+  stripe: Stripe
+  supabase: SupabaseClient
+  webhookSecret: string | undefined
+}
+
+export const createWebhookHandler = ({ stripe, supabase, webhookSecret }: WebhookDependencies) => {
+  // Writes the full subscription state. Every subscription event carries the
+  // complete object, so plan changes, trials and scheduled cancellations are
+  // all handled by the same sync.
+  const syncSubscription = async (subscription: Stripe.Subscription, checkout?: CheckoutOwner) => {
+    const customerId = idOf(subscription.customer)!
+    const periodStart = toIso(subscription.current_period_start)!
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('subscriptions')
+      .select('workspace_id, user_id, stripe_subscription_id, status, current_period_start')
+      .or(`stripe_subscription_id.eq.${subscription.id},stripe_customer_id.eq.${customerId}${checkout ? `,workspace_id.eq.${checkout.workspaceId}` : ""}`)
+      .limit(1)
+      .maybeSingle()
+
+    if (lookupError) throw new Error(`Failed to look up subscription: ${lookupError.message}`)
+
+    const workspaceId = checkout?.workspaceId ?? existing?.workspace_id
+    const subscriberId = checkout?.userId ?? existing?.user_id
+    if (!workspaceId || !subscriberId) {
+      // Subscriptions are linked to a workspace by checkout.session.completed
+      console.warn(`No workspace found for subscription ${subscription.id}, skipping`)
+      return
+    }
+
+    // The workspace row holds one subscription, but a customer can have several
+    // over time. An event for another of them, such as a late update for one
+    // canceled earlier, only replaces the stored one once it is no longer entitled.
+    const isStoredSubscription = !existing?.stripe_subscription_id || existing.stripe_subscription_id === subscription.id
+    if (!isStoredSubscription && isEntitledStatus(existing?.status)) {
+      console.warn(`Ignoring subscription ${subscription.id}: workspace ${workspaceId} is on ${existing?.stripe_subscription_id}`)
+      return
+    }
+
+    // Canceled is final in Stripe, so a late update can't bring the subscription back
+    if (isStoredSubscription && existing?.status === "canceled" && subscription.status !== "canceled") {
+      console.warn(`Ignoring ${subscription.status} update for canceled subscription ${subscription.id}`)
+      return
+    }
+
+    // Stripe doesn't guarantee delivery order; an event from an earlier billing
+    // period must not overwrite the current one or its response count.
+    const storedPeriodStart = existing?.current_period_start ? new Date(existing.current_period_start).getTime() : null
+    const incomingPeriodStart = new Date(periodStart).getTime()
+    if (storedPeriodStart !== null && incomingPeriodStart < storedPeriodStart) {
+      console.warn(`Ignoring subscription ${subscription.id} data for an earlier period (${periodStart})`)
+      return
+    }
+
+    // A new billing period (or a brand new subscription) starts the response count from zero
+    const periodRolledOver = !isStoredSubscription || storedPeriodStart === null || incomingPeriodStart > storedPeriodStart
+
+    const { error } = await supabase
+      .from('subscriptions')
+      .upsert({
+        workspace_id: workspaceId,
+        user_id: subscriberId,
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        ...planFromPrice(subscription.items.data[0]?.price),
+        status: subscription.status,
+        current_period_start: periodStart,
+        current_period_end: toIso(subscription.current_period_end),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        canceled_at: toIso(subscription.canceled_at),
+        trial_end: toIso(subscription.trial_end),
+        ...(periodRolledOver ? { responses_used: 0 } : {}),
+      }, {
+        onConflict: 'workspace_id'
+      })
+
+    if (error) throw new Error(`Failed to update subscription: ${error.message}`)
+  }
+
+  const handleEvent = async (event: Stripe.Event) => {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object as Stripe.Checkout.Session
+
+        if (session.mode === "subscription" && session.client_reference_id && session.subscription) {
+          const subscription = typeof session.subscription === "string"
+            ? await stripe.subscriptions.retrieve(session.subscription)
+            : session.subscription
+          await syncSubscription(subscription, {
+            workspaceId: session.client_reference_id,
+            userId: session.metadata?.userId ?? null,
+          })
+          console.log(`Successfully processed subscription for workspace ${session.client_reference_id}`)
+        }
+        break
+      }
+
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.deleted": {
+        // "deleted" carries status "canceled", so it syncs like any other change
+        await syncSubscription(event.data.object as Stripe.Subscription)
+        break
+      }
+
+      case "customer.subscription.trial_will_end": {
+        const subscription = event.data.object as Stripe.Subscription
+        console.log(`Trial for subscription ${subscription.id} ends at ${toIso(subscription.trial_end)}`)
+        break
+      }
+
+      case "invoice.paid":
+      case "invoice.payment_failed": {
+        const invoice = event.data.object as Stripe.Invoice
+        const subscriptionId = idOf(invoice.subscription)
+        if (!subscriptionId) break
+
+        // The subscription status itself (active, past_due, unpaid) arrives with
+        // the customer.subscription.updated event Stripe sends alongside this one.
+        const paid = event.type === "invoice.paid"
+        const { error } = await supabase
+          .from('subscriptions')
+          .update({
+            latest_invoice_status: invoice.status,
+            payment_failed_at: paid ? null : new Date(event.created * 1000).toISOString(),
+          })
+          .eq('stripe_subscription_id', subscriptionId)
+
+        if (error) throw new Error(`Failed to record invoice ${invoice.id}: ${error.message}`)
+        break
+      }
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`)
+    }
+  }
+
+  // Records the event and reports whether this delivery should process it.
+  // Stripe redelivers events, so one that was processed before, or is being
+  // processed by another delivery right now, is acknowledged without being
+  // applied again; one whose earlier attempt failed is retried.
+  const claimEvent = async (event: Stripe.Event) => {
+    const { data: claimed, error } = await supabase.rpc('claim_stripe_event', {
+      event_id: event.id,
+      event_type: event.type,
+      event_created_at: new Date(event.created * 1000).toISOString(),
+    })
+
+    if (error) throw new Error(`Failed to claim event: ${error.message}`)
+    return claimed === true
+  }
+
+  // Stripe authenticates with the webhook signature rather than a Supabase JWT
+  return createHandler({ name: "stripe-webhook", auth: "public" }, async ({ req }) => {
+    if (!webhookSecret) {
+      throw new Error("Webhook secret not configured")
+    }
+
+    let event: Stripe.Event
+    try {
+      const signature = req.headers.get("stripe-signature")!
+      const body = await req.text()
+
+      // Verify the webhook signature
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret)
+    } catch (error: unknown) {
+      console.error("Webhook error:", error)
+      throw new HttpError(400, error instanceof Error ? error.message : "Webhook error")
+    }
+
+    console.log(`Received event: ${event.type} (${event.id})`)
+
+    try {
+      if (!(await claimEvent(event))) {
+        console.log(`Event ${event.id} already processed or in progress, skipping`)
+        return jsonResponse({ received: true })
+      }
+
+      await handleEvent(event)
+
+      const { error: processedError } = await supabase
+        .from('stripe_events')
+        .update({ processed_at: new Date().toISOString(), last_error: null })
+        .eq('id', event.id)
+      if (processedError) throw new Error(`Failed to mark event as processed: ${processedError.message}`)
+
+      return jsonResponse({ received: true })
+
+    } catch (error: unknown) {
+      // A 500 makes Stripe redeliver the event, which is then retried
+      console.error(`Error processing event ${event.id}:`, error)
+      const message = error instanceof Error ? error.message : "Webhook processing error"
+      const { data: failed } = await supabase
+        .from('stripe_events')
+        .select('attempts')
+        .eq('id', event.id)
+        .maybeSingle()
+      await supabase
+        .from('stripe_events')
+        // Releasing the claim lets Stripe's retry process it straight away
+        .update({ attempts: (failed?.attempts ?? 0) + 1, last_error: message, claimed_at: null })
+        .eq('id', event.id)
+      return errorResponse(500, message)
+    }
+  })
+}
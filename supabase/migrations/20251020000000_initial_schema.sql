@@ -0,0 +1,210 @@
+-- Baseline schema: the tables the app was originally built on, with their row
+-- level security. Later migrations add columns, tables and functions on top of
+-- these, so this file only holds the original shape.
+--
+-- Written to be safe on projects that already have these tables: existing
+-- tables are left alone, and so are their policies, which later migrations
+-- own and replace.
+
+-- Whether this is a fresh database, read back before creating policies.
+select set_config('baseline.fresh', (to_regclass('public.projects') is null)::text, true);
+
+-- Profiles -------------------------------------------------------------------
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Every new account gets a profile, named from the sign-up metadata if any.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, full_name)
+    values (new.id, new.raw_user_meta_data ->> 'full_name')
+    on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Projects -------------------------------------------------------------------
+
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  description text,
+  product_idea_prompt text,
+  interview_guide jsonb,
+  status text default 'draft',
+  max_responses integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists projects_user_id_idx on public.projects (user_id);
+
+-- Interviews -----------------------------------------------------------------
+
+-- user_id is the project owner, not the respondent: respondents are anonymous.
+create table if not exists public.interviews (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'started'
+    check (status in ('started', 'completed', 'abandoned')),
+  started_at timestamptz default now(),
+  completed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists interviews_project_id_idx on public.interviews (project_id);
+create index if not exists interviews_user_id_idx on public.interviews (user_id);
+
+-- Conversations --------------------------------------------------------------
+
+create table if not exists public.conversations (
+  id bigint generated always as identity primary key,
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  sender_type text not null check (sender_type in ('ai', 'user')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversations_interview_id_idx on public.conversations (interview_id, created_at);
+
+-- Insights -------------------------------------------------------------------
+
+-- One row per analysed interview. The jsonb columns follow the shapes in
+-- supabase/functions/_shared/insightSchema.ts.
+create table if not exists public.insights (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid references public.interviews (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  summary_text text,
+  key_learnings jsonb,
+  pain_points jsonb,
+  quotes jsonb,
+  objections jsonb,
+  product_ideas jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists insights_project_id_idx on public.insights (project_id);
+create index if not exists insights_interview_id_idx on public.insights (interview_id);
+
+-- Subscriptions --------------------------------------------------------------
+
+-- Written only by the stripe-webhook function.
+create table if not exists public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  stripe_customer_id text,
+  stripe_subscription_id text,
+  stripe_price_id text,
+  plan_type text,
+  status text,
+  current_period_start timestamptz,
+  current_period_end timestamptz,
+  response_limit integer,
+  responses_used integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Row level security ---------------------------------------------------------
+
+alter table public.profiles enable row level security;
+alter table public.projects enable row level security;
+alter table public.interviews enable row level security;
+alter table public.conversations enable row level security;
+alter table public.insights enable row level security;
+alter table public.subscriptions enable row level security;
+
+-- Policies are only created along with the tables. On an existing database
+-- they are left to the later migrations that replaced them.
+do $$
+begin
+  if current_setting('baseline.fresh', true) <> 'true' then
+    return;
+  end if;
+
+  -- The interview page shows the founder's name to anonymous respondents.
+  create policy "Anyone can read profiles"
+    on public.profiles for select
+    using (true);
+
+  create policy "Users can update their profile"
+    on public.profiles for update
+    using (id = auth.uid())
+    with check (id = auth.uid());
+
+  -- Interview links are public, so respondents read the project they were sent.
+  create policy "Anyone can read projects"
+    on public.projects for select
+    using (true);
+
+  create policy "Owners can create projects"
+    on public.projects for insert
+    with check (user_id = auth.uid());
+
+  create policy "Owners can update their projects"
+    on public.projects for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+  create policy "Owners can delete their projects"
+    on public.projects for delete
+    using (user_id = auth.uid());
+
+  -- Respondents start interviews anonymously; the row must be attributed to the
+  -- project's owner. Everything after that goes through edge functions.
+  create policy "Anyone can start an interview"
+    on public.interviews for insert
+    with check (
+      status = 'started'
+      and exists (select 1 from public.projects p where p.id = project_id and p.user_id = interviews.user_id)
+    );
+
+  create policy "Owners can read their interviews"
+    on public.interviews for select
+    using (user_id = auth.uid());
+
+  create policy "Owners can update their interviews"
+    on public.interviews for update
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+  create policy "Owners can delete their interviews"
+    on public.interviews for delete
+    using (user_id = auth.uid());
+
+  create policy "Owners can read their conversations"
+    on public.conversations for select
+    using (exists (select 1 from public.interviews i where i.id = interview_id and i.user_id = auth.uid()));
+
+  create policy "Owners can read their insights"
+    on public.insights for select
+    using (user_id = auth.uid());
+
+  create policy "Owners can delete their insights"
+    on public.insights for delete
+    using (user_id = auth.uid());
+
+  create policy "Users can read their subscription"
+    on public.subscriptions for select
+    using (user_id = auth.uid());
+end;
+$$;
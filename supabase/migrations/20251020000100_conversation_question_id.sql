@@ -0,0 +1,3 @@
+-- Track which interview guide question each conversation message belongs to.
+alter table public.conversations
+  add column if not exists question_id text;
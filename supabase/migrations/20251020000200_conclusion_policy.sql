@@ -0,0 +1,9 @@
+-- Per-project rules for when an interview ends, evaluated by ai-interviewer.
+-- Shape: { maxTurns, maxMinutes, endWhenGuideCompleted, honorAiSignal }
+alter table public.projects
+  add column if not exists conclusion_policy jsonb not null
+    default '{"maxTurns": 12, "maxMinutes": 20, "endWhenGuideCompleted": true, "honorAiSignal": true}'::jsonb;
+
+-- Why the interview ended: max_turns, max_minutes, guide_completed or ai_signal.
+alter table public.interviews
+  add column if not exists conclusion_reason text;
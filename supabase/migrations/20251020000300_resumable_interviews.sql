@@ -0,0 +1,55 @@
+-- Resumable interview sessions and abandoned-session detection.
+
+alter table public.interviews
+  add column if not exists resume_token uuid not null default gen_random_uuid(),
+  add column if not exists last_activity_at timestamptz not null default now();
+
+create unique index if not exists interviews_resume_token_key on public.interviews (resume_token);
+create index if not exists interviews_status_last_activity_idx on public.interviews (status, last_activity_at);
+
+-- Every new message counts as activity on its interview.
+create or replace function public.touch_interview_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.interviews
+    set last_activity_at = now()
+    where id = new.interview_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_touch_interview on public.conversations;
+create trigger conversations_touch_interview
+  after insert on public.conversations
+  for each row execute function public.touch_interview_activity();
+
+-- Marks in-progress interviews with no activity for `timeout` as abandoned.
+create or replace function public.mark_abandoned_interviews(timeout interval default interval '30 minutes')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  update public.interviews
+    set status = 'abandoned'
+    where status = 'started'
+      and last_activity_at < now() - timeout;
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
+
+create extension if not exists pg_cron with schema extensions;
+
+select cron.schedule(
+  'mark-abandoned-interviews',
+  '*/10 * * * *',
+  $$select public.mark_abandoned_interviews()$$
+);
@@ -0,0 +1,120 @@
+-- Server-side insight processing: completing an interview queues a job that the
+-- process-interview-insights edge function picks up.
+--
+-- Requires two Vault secrets:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+alter table public.interviews
+  add column if not exists processing_status text
+    check (processing_status in ('pending', 'processing', 'completed', 'failed')),
+  add column if not exists processing_attempts integer not null default 0,
+  add column if not exists processing_started_at timestamptz,
+  add column if not exists processing_error text,
+  add column if not exists processed_at timestamptz;
+
+create index if not exists interviews_processing_status_idx on public.interviews (processing_status);
+
+create extension if not exists pg_net with schema extensions;
+
+create or replace function public.invoke_insight_processing(target_interview_id uuid)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  project_url text;
+  service_key text;
+begin
+  select decrypted_secret into project_url from vault.decrypted_secrets where name = 'project_url';
+  select decrypted_secret into service_key from vault.decrypted_secrets where name = 'service_role_key';
+
+  return net.http_post(
+    url := project_url || '/functions/v1/process-interview-insights',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := jsonb_build_object('interviewId', target_interview_id),
+    timeout_milliseconds := 120000
+  );
+end;
+$$;
+
+-- Queue the job when an interview transitions to completed.
+create or replace function public.queue_insight_processing()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'completed' and old.status is distinct from 'completed' then
+    new.processing_status := 'pending';
+    new.processing_attempts := 0;
+    new.processing_error := null;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.dispatch_insight_processing()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.invoke_insight_processing(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_queue_insights on public.interviews;
+create trigger interviews_queue_insights
+  before update of status on public.interviews
+  for each row execute function public.queue_insight_processing();
+
+drop trigger if exists interviews_dispatch_insights on public.interviews;
+create trigger interviews_dispatch_insights
+  after update of status on public.interviews
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.dispatch_insight_processing();
+
+-- Safety net for dispatches that never reached the function (network errors,
+-- cold-start timeouts) and for jobs whose worker died mid-run. Jobs that
+-- exhausted their attempts stay failed until the founder re-runs them.
+create or replace function public.retry_stalled_insight_jobs(max_attempts integer default 3)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  job record;
+  dispatched integer := 0;
+begin
+  for job in
+    select id from public.interviews
+    where status = 'completed'
+      and processing_attempts < max_attempts
+      and (
+        (processing_status = 'pending' and last_activity_at < now() - interval '5 minutes')
+        or (processing_status = 'processing' and processing_started_at < now() - interval '15 minutes')
+      )
+    limit 20
+  loop
+    perform public.invoke_insight_processing(job.id);
+    dispatched := dispatched + 1;
+  end loop;
+  return dispatched;
+end;
+$$;
+
+select cron.schedule(
+  'retry-stalled-insight-jobs',
+  '*/5 * * * *',
+  $$select public.retry_stalled_insight_jobs()$$
+);
@@ -0,0 +1,85 @@
+-- Immutable interview guide versions. projects.interview_guide stays as the
+-- current guide for convenience, but every interview records the exact version
+-- it ran against.
+
+create table if not exists public.interview_guide_versions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  version integer not null,
+  guide jsonb not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, version)
+);
+
+alter table public.projects
+  add column if not exists current_guide_version_id uuid references public.interview_guide_versions (id) on delete set null;
+
+alter table public.interviews
+  add column if not exists guide_version_id uuid references public.interview_guide_versions (id) on delete set null;
+
+create index if not exists interviews_guide_version_id_idx on public.interviews (guide_version_id);
+
+-- Backfill: the guide each existing project has today becomes its version 1,
+-- and existing interviews are attributed to it.
+insert into public.interview_guide_versions (project_id, version, guide, created_by, created_at)
+select p.id, 1, p.interview_guide, p.user_id, coalesce(p.updated_at, p.created_at, now())
+from public.projects p
+where p.interview_guide is not null
+on conflict (project_id, version) do nothing;
+
+update public.projects p
+  set current_guide_version_id = v.id
+  from public.interview_guide_versions v
+  where v.project_id = p.id and v.version = 1 and p.current_guide_version_id is null;
+
+update public.interviews i
+  set guide_version_id = p.current_guide_version_id
+  from public.projects p
+  where p.id = i.project_id and i.guide_version_id is null;
+
+-- Saves a guide as the project's next version and makes it current.
+create or replace function public.publish_guide_version(target_project_id uuid, new_guide jsonb)
+returns public.interview_guide_versions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  next_version integer;
+  created public.interview_guide_versions;
+begin
+  perform 1 from public.projects where id = target_project_id for update;
+  if not found then
+    raise exception 'Project % not found', target_project_id;
+  end if;
+
+  select coalesce(max(version), 0) + 1 into next_version
+    from public.interview_guide_versions
+    where project_id = target_project_id;
+
+  insert into public.interview_guide_versions (project_id, version, guide, created_by)
+    values (target_project_id, next_version, new_guide, auth.uid())
+    returning * into created;
+
+  update public.projects
+    set interview_guide = new_guide,
+        current_guide_version_id = created.id,
+        updated_at = now()
+    where id = target_project_id;
+
+  return created;
+end;
+$$;
+
+alter table public.interview_guide_versions enable row level security;
+
+drop policy if exists "Owners can read their guide versions" on public.interview_guide_versions;
+create policy "Owners can read their guide versions"
+  on public.interview_guide_versions for select
+  using (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
+
+drop policy if exists "Owners can create guide versions" on public.interview_guide_versions;
+create policy "Owners can create guide versions"
+  on public.interview_guide_versions for insert
+  with check (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
@@ -0,0 +1,27 @@
+-- Records each time a respondent opens a project's interview link, the top of
+-- the project funnel (link opens -> interviews started -> completed).
+
+create table if not exists public.interview_link_opens (
+  id bigint generated always as identity primary key,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- Random per-browser-session id so reloads are not double counted
+  visitor_id uuid not null,
+  referrer text,
+  opened_at timestamptz not null default now(),
+  unique (project_id, visitor_id)
+);
+
+create index if not exists interview_link_opens_project_id_idx on public.interview_link_opens (project_id, opened_at);
+
+alter table public.interview_link_opens enable row level security;
+
+-- Respondents are anonymous, so anyone may record an open for an existing project.
+drop policy if exists "Anyone can record a link open" on public.interview_link_opens;
+create policy "Anyone can record a link open"
+  on public.interview_link_opens for insert
+  with check (exists (select 1 from public.projects p where p.id = project_id));
+
+drop policy if exists "Owners can read their link opens" on public.interview_link_opens;
+create policy "Owners can read their link opens"
+  on public.interview_link_opens for select
+  using (exists (select 1 from public.projects p where p.id = project_id and p.user_id = auth.uid()));
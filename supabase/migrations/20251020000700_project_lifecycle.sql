@@ -0,0 +1,148 @@
+-- Project status lifecycle (draft -> active -> paused -> completed) and
+-- enforcement of max_responses when new interview sessions are created.
+
+-- Projects that are already collecting interviews stay live.
+update public.projects p
+  set status = 'active'
+  where (p.status is null or p.status not in ('draft', 'active', 'paused', 'completed'))
+    and exists (select 1 from public.interviews i where i.project_id = p.id);
+
+update public.projects
+  set status = 'draft'
+  where status is null or status not in ('draft', 'active', 'paused', 'completed');
+
+alter table public.projects
+  alter column status set default 'draft',
+  alter column status set not null;
+
+alter table public.projects
+  drop constraint if exists projects_status_check;
+alter table public.projects
+  add constraint projects_status_check check (status in ('draft', 'active', 'paused', 'completed'));
+
+-- Whether a project currently accepts new interview sessions. Callable by
+-- anonymous respondents, so it only reveals the status and never the counts.
+-- Responses are completed interviews; a missing max_responses means the
+-- default cap of 100 shown in the dashboard.
+create or replace function public.get_interview_availability(target_project_id uuid)
+returns table (accepting boolean, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  project record;
+  completed_count integer;
+begin
+  select id, status, coalesce(max_responses, 100) as cap
+    into project
+    from public.projects
+    where id = target_project_id;
+
+  if not found then
+    return query select false, 'not_found';
+    return;
+  end if;
+
+  if project.status <> 'active' then
+    return query select false, project.status;
+    return;
+  end if;
+
+  select count(*) into completed_count
+    from public.interviews
+    where project_id = target_project_id and status = 'completed';
+
+  if completed_count >= project.cap then
+    return query select false, 'full';
+    return;
+  end if;
+
+  return query select true, null::text;
+end;
+$$;
+
+grant execute on function public.get_interview_availability(uuid) to anon, authenticated;
+
+-- Refuses new sessions for projects that are not accepting them. Sessions
+-- already in progress can still finish, so a project may end slightly over
+-- its cap.
+create or replace function public.enforce_interview_availability()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  availability record;
+begin
+  select * into availability from public.get_interview_availability(new.project_id);
+  if not availability.accepting then
+    raise exception 'Project is not accepting interviews'
+      using errcode = 'check_violation', hint = availability.reason;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_enforce_availability on public.interviews;
+create trigger interviews_enforce_availability
+  before insert on public.interviews
+  for each row execute function public.enforce_interview_availability();
+
+-- Only forward moves through the lifecycle, plus resuming a paused project.
+create or replace function public.enforce_project_status_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = old.status then
+    return new;
+  end if;
+  if (old.status, new.status) not in (
+    ('draft', 'active'),
+    ('active', 'paused'),
+    ('active', 'completed'),
+    ('paused', 'active'),
+    ('paused', 'completed')
+  ) then
+    raise exception 'Invalid project status change from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_enforce_status_transition on public.projects;
+create trigger projects_enforce_status_transition
+  before update of status on public.projects
+  for each row execute function public.enforce_project_status_transition();
+
+-- Completes an active project once it reaches its response cap.
+create or replace function public.complete_project_at_cap()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.projects p
+    set status = 'completed', updated_at = now()
+    where p.id = new.project_id
+      and p.status = 'active'
+      and (
+        select count(*) from public.interviews i
+        where i.project_id = p.id and i.status = 'completed'
+      ) >= coalesce(p.max_responses, 100);
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_complete_project_at_cap on public.interviews;
+create trigger interviews_complete_project_at_cap
+  after update of status on public.interviews
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.complete_project_at_cap();
@@ -0,0 +1,89 @@
+-- Metered response usage against subscriptions.response_limit. A response is
+-- a completed interview; it is counted once, against the project owner's
+-- subscription, when the interview completes. stripe-webhook resets the count
+-- when a new billing period starts.
+
+alter table public.interviews
+  add column if not exists usage_recorded_at timestamptz;
+
+create or replace function public.record_response_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Guard against double counting if an interview is ever re-completed.
+  update public.interviews
+    set usage_recorded_at = now()
+    where id = new.id and usage_recorded_at is null;
+  if not found then
+    return new;
+  end if;
+
+  -- Single-statement increment, so concurrent completions cannot lose updates.
+  update public.subscriptions
+    set responses_used = coalesce(responses_used, 0) + 1
+    where user_id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_record_response_usage on public.interviews;
+create trigger interviews_record_response_usage
+  after update of status on public.interviews
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.record_response_usage();
+
+-- Adds the owner's subscription quota to the checks from the project lifecycle
+-- migration. Owners without a subscription row, or on an unlimited plan, are
+-- not metered. The "quota" reason is shown to respondents as a generic pause.
+create or replace function public.get_interview_availability(target_project_id uuid)
+returns table (accepting boolean, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  project record;
+  completed_count integer;
+begin
+  select id, user_id, status, coalesce(max_responses, 100) as cap
+    into project
+    from public.projects
+    where id = target_project_id;
+
+  if not found then
+    return query select false, 'not_found';
+    return;
+  end if;
+
+  if project.status <> 'active' then
+    return query select false, project.status;
+    return;
+  end if;
+
+  select count(*) into completed_count
+    from public.interviews
+    where project_id = target_project_id and status = 'completed';
+
+  if completed_count >= project.cap then
+    return query select false, 'full';
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.subscriptions s
+    where s.user_id = project.user_id
+      and s.response_limit is not null
+      and coalesce(s.responses_used, 0) >= s.response_limit
+  ) then
+    return query select false, 'quota';
+    return;
+  end if;
+
+  return query select true, null::text;
+end;
+$$;
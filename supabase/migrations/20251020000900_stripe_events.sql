@@ -0,0 +1,59 @@
+-- Idempotent Stripe webhook processing and the subscription fields needed for
+-- trials, cancellation at period end and failed payments.
+
+create table if not exists public.stripe_events (
+  id text primary key, -- Stripe event id (evt_...)
+  type text not null,
+  stripe_created_at timestamptz not null,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  attempts integer not null default 0,
+  last_error text,
+  -- Set while a delivery is being processed, so a concurrent redelivery of
+  -- the same event isn't applied twice
+  claimed_at timestamptz
+);
+
+-- Only the webhook (service role) touches this table.
+alter table public.stripe_events enable row level security;
+
+-- Claims an event for processing. Returns true for exactly one caller: the
+-- first delivery, or a retry once an earlier attempt failed or its lease ran
+-- out. Processed events and events claimed by a live delivery return false.
+create or replace function public.claim_stripe_event(
+  event_id text,
+  event_type text,
+  event_created_at timestamptz,
+  lease interval default interval '5 minutes'
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claimed text;
+begin
+  insert into public.stripe_events (id, type, stripe_created_at, claimed_at)
+    values (event_id, event_type, event_created_at, now())
+    on conflict (id) do update
+      set claimed_at = now()
+      where stripe_events.processed_at is null
+        and (stripe_events.claimed_at is null or stripe_events.claimed_at < now() - lease)
+    returning id into claimed;
+  return claimed is not null;
+end;
+$$;
+
+revoke execute on function public.claim_stripe_event(text, text, timestamptz, interval) from public, anon, authenticated;
+
+alter table public.subscriptions
+  add column if not exists cancel_at_period_end boolean not null default false,
+  add column if not exists canceled_at timestamptz,
+  add column if not exists trial_end timestamptz,
+  add column if not exists payment_failed_at timestamptz,
+  add column if not exists latest_invoice_status text;
+
+create unique index if not exists subscriptions_stripe_subscription_id_key
+  on public.subscriptions (stripe_subscription_id)
+  where stripe_subscription_id is not null;
@@ -0,0 +1,79 @@
+-- The ai-interviewer function now loads an interview's context and history
+-- from the database and is the only writer of conversation rows, so browsers
+-- can no longer dictate what goes into the prompt. Respondent messages are
+-- rate limited per interview and per client IP.
+
+-- Guide progress is kept server-side; interviews from before this column
+-- derive it from their conversation history.
+alter table public.interviews
+  add column if not exists guide_progress jsonb;
+
+create table if not exists public.interviewer_requests (
+  id bigint generated always as identity primary key,
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  -- SHA-256 of the client IP; the address itself is never stored
+  client_ip_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists interviewer_requests_interview_idx on public.interviewer_requests (interview_id, created_at);
+create index if not exists interviewer_requests_ip_idx on public.interviewer_requests (client_ip_hash, created_at);
+create index if not exists interviewer_requests_created_at_idx on public.interviewer_requests (created_at);
+
+-- No policies: only the service role reads or writes request history.
+alter table public.interviewer_requests enable row level security;
+
+-- Records one respondent request unless it would exceed a limit. Returns null
+-- when the request is allowed, otherwise the limit that was hit ('interview'
+-- or 'ip'). Rejected requests are not recorded.
+create or replace function public.record_interviewer_request(
+  target_interview_id uuid,
+  ip_hash text,
+  window_seconds integer,
+  interview_limit integer,
+  ip_limit integer
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_start timestamptz := now() - make_interval(secs => window_seconds);
+  recent integer;
+begin
+  -- Serialize requests per interview so parallel calls can't all slip under the limit.
+  perform pg_advisory_xact_lock(hashtext(target_interview_id::text));
+
+  select count(*) into recent
+    from public.interviewer_requests
+    where interview_id = target_interview_id and created_at > window_start;
+  if recent >= interview_limit then
+    return 'interview';
+  end if;
+
+  if ip_hash is not null then
+    select count(*) into recent
+      from public.interviewer_requests
+      where client_ip_hash = ip_hash and created_at > window_start;
+    if recent >= ip_limit then
+      return 'ip';
+    end if;
+  end if;
+
+  insert into public.interviewer_requests (interview_id, client_ip_hash)
+    values (target_interview_id, ip_hash);
+
+  -- Only the current window matters; drop anything older than a day.
+  delete from public.interviewer_requests where created_at < now() - interval '1 day';
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.record_interviewer_request(uuid, text, integer, integer, integer) from public, anon, authenticated;
+
+-- Conversation rows and interview completion are written by edge functions
+-- with the service role key; respondents' browsers only start interviews.
+revoke insert, update, delete on public.conversations from anon, authenticated;
+revoke update on public.interviews from anon;
@@ -0,0 +1,13 @@
+-- Guardrail flags on respondent messages: prompt injection attempts, abusive
+-- content and off-topic chatter, as classified by the ai-interviewer function.
+-- Insight analysis does not accept flagged messages as evidence.
+
+alter table public.conversations
+  add column if not exists guardrail_flags text[] not null default '{}';
+
+alter table public.conversations
+  drop constraint if exists conversations_guardrail_flags_check;
+
+alter table public.conversations
+  add constraint conversations_guardrail_flags_check
+  check (guardrail_flags <@ array['prompt_injection', 'abusive', 'off_topic']::text[]);
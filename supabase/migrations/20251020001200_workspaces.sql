@@ -0,0 +1,489 @@
+-- Workspaces own projects and billing so a team can share interviews. Members
+-- have a role: owners manage members and billing, editors run projects and
+-- viewers read them. Every user gets a personal workspace; existing projects
+-- and subscriptions move into their owner's.
+
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(btrim(name)) between 1 and 80),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Created by the invite-workspace-member function, which checks seats.
+create table if not exists public.workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz
+);
+
+create unique index if not exists workspace_invitations_pending_key
+  on public.workspace_invitations (workspace_id, lower(email))
+  where accepted_at is null;
+
+alter table public.projects
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+
+alter table public.subscriptions
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+
+create index if not exists projects_workspace_id_idx on public.projects (workspace_id);
+
+-- Backfill: a personal workspace for every existing user, owning their
+-- projects and subscription.
+insert into public.workspaces (name, created_by)
+select coalesce(nullif(btrim(pr.full_name), ''), split_part(u.email, '@', 1), 'My') || '''s workspace', u.id
+from auth.users u
+left join public.profiles pr on pr.id = u.id
+where not exists (select 1 from public.workspaces w where w.created_by = u.id);
+
+insert into public.workspace_members (workspace_id, user_id, role)
+select w.id, w.created_by, 'owner'
+from public.workspaces w
+where w.created_by is not null
+on conflict (workspace_id, user_id) do nothing;
+
+update public.projects p
+  set workspace_id = (
+    select w.id from public.workspaces w where w.created_by = p.user_id order by w.created_at limit 1
+  )
+  where p.workspace_id is null;
+
+update public.subscriptions s
+  set workspace_id = (
+    select w.id from public.workspaces w where w.created_by = s.user_id order by w.created_at limit 1
+  )
+  where s.workspace_id is null;
+
+alter table public.projects
+  alter column workspace_id set not null;
+
+-- Billing belongs to the workspace; user_id is the member who subscribed.
+alter table public.subscriptions
+  alter column workspace_id set not null,
+  drop constraint if exists subscriptions_user_id_key;
+
+alter table public.subscriptions
+  drop constraint if exists subscriptions_workspace_id_key;
+alter table public.subscriptions
+  add constraint subscriptions_workspace_id_key unique (workspace_id);
+
+-- Role checks ----------------------------------------------------------------
+
+-- Whether the current user has at least min_role (viewer < editor < owner) in
+-- the workspace. Security definer so policies on workspace_members can use it
+-- without recursing into themselves.
+create or replace function public.has_workspace_role(target_workspace_id uuid, min_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select array_position(array['viewer', 'editor', 'owner'], m.role)
+      >= array_position(array['viewer', 'editor', 'owner'], min_role)
+    from public.workspace_members m
+    where m.workspace_id = target_workspace_id and m.user_id = auth.uid()
+  ), false);
+$$;
+
+create or replace function public.has_project_role(target_project_id uuid, min_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_workspace_role(
+    (select p.workspace_id from public.projects p where p.id = target_project_id),
+    min_role
+  );
+$$;
+
+-- Creating, joining and listing workspaces ---------------------------------
+
+create or replace function public.create_workspace(workspace_name text)
+returns public.workspaces
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created public.workspaces;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = 'insufficient_privilege';
+  end if;
+
+  insert into public.workspaces (name, created_by)
+    values (btrim(workspace_name), auth.uid())
+    returning * into created;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (created.id, auth.uid(), 'owner');
+
+  return created;
+end;
+$$;
+
+-- Joins the workspace an invitation is for. Only the invited email address
+-- can accept it.
+create or replace function public.accept_workspace_invitation(target_invitation_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations;
+begin
+  select * into invitation
+    from public.workspace_invitations
+    where id = target_invitation_id and accepted_at is null
+    for update;
+
+  if not found or lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'Invitation not found' using errcode = 'no_data_found';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (invitation.workspace_id, auth.uid(), invitation.role)
+    on conflict (workspace_id, user_id) do nothing;
+
+  update public.workspace_invitations
+    set accepted_at = now()
+    where id = invitation.id;
+
+  return invitation.workspace_id;
+end;
+$$;
+
+-- Members with their name and email. Emails live in auth.users, which clients
+-- can't read.
+create or replace function public.get_workspace_members(target_workspace_id uuid)
+returns table (user_id uuid, email text, full_name text, role text, joined_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_role(target_workspace_id, 'viewer') then
+    raise exception 'Workspace not found' using errcode = 'no_data_found';
+  end if;
+
+  return query
+    select m.user_id, u.email::text, pr.full_name, m.role, m.created_at
+    from public.workspace_members m
+    join auth.users u on u.id = m.user_id
+    left join public.profiles pr on pr.id = m.user_id
+    where m.workspace_id = target_workspace_id
+    order by m.created_at;
+end;
+$$;
+
+revoke execute on function public.create_workspace(text) from public, anon;
+revoke execute on function public.accept_workspace_invitation(uuid) from public, anon;
+revoke execute on function public.get_workspace_members(uuid) from public, anon;
+grant execute on function public.create_workspace(text) to authenticated;
+grant execute on function public.accept_workspace_invitation(uuid) to authenticated;
+grant execute on function public.get_workspace_members(uuid) to authenticated;
+
+-- A workspace always keeps at least one owner. Deleting the workspace itself
+-- cascades to its members, which is allowed.
+create or replace function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role <> 'owner' or (tg_op = 'UPDATE' and new.role = 'owner') then
+    return coalesce(new, old);
+  end if;
+  if not exists (select 1 from public.workspaces w where w.id = old.workspace_id) then
+    return old;
+  end if;
+  if not exists (
+    select 1 from public.workspace_members m
+    where m.workspace_id = old.workspace_id and m.role = 'owner' and m.user_id <> old.user_id
+  ) then
+    raise exception 'A workspace needs at least one owner' using errcode = 'check_violation';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists workspace_members_keep_owner on public.workspace_members;
+create trigger workspace_members_keep_owner
+  before update of role or delete on public.workspace_members
+  for each row execute function public.keep_workspace_owner();
+
+-- New accounts start with a personal workspace.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  personal_workspace_id uuid;
+begin
+  insert into public.profiles (id, full_name)
+    values (new.id, new.raw_user_meta_data ->> 'full_name')
+    on conflict (id) do nothing;
+
+  insert into public.workspaces (name, created_by)
+    values (
+      coalesce(nullif(btrim(new.raw_user_meta_data ->> 'full_name'), ''), split_part(new.email, '@', 1), 'My') || '''s workspace',
+      new.id
+    )
+    returning id into personal_workspace_id;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+    values (personal_workspace_id, new.id, 'owner');
+  return new;
+end;
+$$;
+
+-- Usage and quota follow the workspace's subscription ----------------------
+
+create or replace function public.record_response_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Guard against double counting if an interview is ever re-completed.
+  update public.interviews
+    set usage_recorded_at = now()
+    where id = new.id and usage_recorded_at is null;
+  if not found then
+    return new;
+  end if;
+
+  -- Single-statement increment, so concurrent completions cannot lose updates.
+  update public.subscriptions
+    set responses_used = coalesce(responses_used, 0) + 1
+    where workspace_id = (select p.workspace_id from public.projects p where p.id = new.project_id);
+  return new;
+end;
+$$;
+
+create or replace function public.get_interview_availability(target_project_id uuid)
+returns table (accepting boolean, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  project record;
+  completed_count integer;
+begin
+  select id, workspace_id, status, coalesce(max_responses, 100) as cap
+    into project
+    from public.projects
+    where id = target_project_id;
+
+  if not found then
+    return query select false, 'not_found';
+    return;
+  end if;
+
+  if project.status <> 'active' then
+    return query select false, project.status;
+    return;
+  end if;
+
+  select count(*) into completed_count
+    from public.interviews
+    where project_id = target_project_id and status = 'completed';
+
+  if completed_count >= project.cap then
+    return query select false, 'full';
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.subscriptions s
+    where s.workspace_id = project.workspace_id
+      and s.response_limit is not null
+      and coalesce(s.responses_used, 0) >= s.response_limit
+  ) then
+    return query select false, 'quota';
+    return;
+  end if;
+
+  return query select true, null::text;
+end;
+$$;
+
+-- Row level security ---------------------------------------------------------
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+
+-- Invitees see the name of the workspace they were invited to.
+drop policy if exists "Members and invitees can read workspaces" on public.workspaces;
+create policy "Members and invitees can read workspaces"
+  on public.workspaces for select
+  using (
+    public.has_workspace_role(id, 'viewer')
+    or exists (
+      select 1 from public.workspace_invitations i
+      where i.workspace_id = workspaces.id
+        and i.accepted_at is null
+        and lower(i.email) = lower(coalesce(auth.jwt() ->> 'email', ''))
+    )
+  );
+
+drop policy if exists "Owners can rename workspaces" on public.workspaces;
+create policy "Owners can rename workspaces"
+  on public.workspaces for update
+  using (public.has_workspace_role(id, 'owner'))
+  with check (public.has_workspace_role(id, 'owner'));
+
+drop policy if exists "Owners can delete workspaces" on public.workspaces;
+create policy "Owners can delete workspaces"
+  on public.workspaces for delete
+  using (public.has_workspace_role(id, 'owner'));
+
+drop policy if exists "Members can read their workspace's members" on public.workspace_members;
+create policy "Members can read their workspace's members"
+  on public.workspace_members for select
+  using (public.has_workspace_role(workspace_id, 'viewer'));
+
+drop policy if exists "Owners can change member roles" on public.workspace_members;
+create policy "Owners can change member roles"
+  on public.workspace_members for update
+  using (public.has_workspace_role(workspace_id, 'owner'))
+  with check (public.has_workspace_role(workspace_id, 'owner'));
+
+drop policy if exists "Owners can remove members and members can leave" on public.workspace_members;
+create policy "Owners can remove members and members can leave"
+  on public.workspace_members for delete
+  using (user_id = auth.uid() or public.has_workspace_role(workspace_id, 'owner'));
+
+drop policy if exists "Owners and invitees can read invitations" on public.workspace_invitations;
+create policy "Owners and invitees can read invitations"
+  on public.workspace_invitations for select
+  using (
+    public.has_workspace_role(workspace_id, 'owner')
+    or lower(email) = lower(coalesce(auth.jwt() ->> 'email', ''))
+  );
+
+drop policy if exists "Owners can revoke and invitees can decline invitations" on public.workspace_invitations;
+create policy "Owners can revoke and invitees can decline invitations"
+  on public.workspace_invitations for delete
+  using (
+    public.has_workspace_role(workspace_id, 'owner')
+    or (accepted_at is null and lower(email) = lower(coalesce(auth.jwt() ->> 'email', '')))
+  );
+
+-- Projects stay publicly readable for the interview page; writes need a role
+-- in the project's workspace. user_id records who created the project.
+drop policy if exists "Owners can create projects" on public.projects;
+drop policy if exists "Owners can update their projects" on public.projects;
+drop policy if exists "Owners can delete their projects" on public.projects;
+
+drop policy if exists "Editors can create projects" on public.projects;
+create policy "Editors can create projects"
+  on public.projects for insert
+  with check (user_id = auth.uid() and public.has_workspace_role(workspace_id, 'editor'));
+
+drop policy if exists "Editors can update projects" on public.projects;
+create policy "Editors can update projects"
+  on public.projects for update
+  using (public.has_workspace_role(workspace_id, 'editor'))
+  with check (public.has_workspace_role(workspace_id, 'editor'));
+
+drop policy if exists "Owners can delete projects" on public.projects;
+create policy "Owners can delete projects"
+  on public.projects for delete
+  using (public.has_workspace_role(workspace_id, 'owner'));
+
+drop policy if exists "Owners can read their interviews" on public.interviews;
+drop policy if exists "Owners can update their interviews" on public.interviews;
+drop policy if exists "Owners can delete their interviews" on public.interviews;
+
+drop policy if exists "Members can read interviews" on public.interviews;
+create policy "Members can read interviews"
+  on public.interviews for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Editors can update interviews" on public.interviews;
+create policy "Editors can update interviews"
+  on public.interviews for update
+  using (public.has_project_role(project_id, 'editor'))
+  with check (public.has_project_role(project_id, 'editor'));
+
+drop policy if exists "Editors can delete interviews" on public.interviews;
+create policy "Editors can delete interviews"
+  on public.interviews for delete
+  using (public.has_project_role(project_id, 'editor'));
+
+drop policy if exists "Owners can read their conversations" on public.conversations;
+drop policy if exists "Members can read conversations" on public.conversations;
+create policy "Members can read conversations"
+  on public.conversations for select
+  using (exists (
+    select 1 from public.interviews i
+    where i.id = interview_id and public.has_project_role(i.project_id, 'viewer')
+  ));
+
+drop policy if exists "Owners can read their insights" on public.insights;
+drop policy if exists "Owners can delete their insights" on public.insights;
+
+drop policy if exists "Members can read insights" on public.insights;
+create policy "Members can read insights"
+  on public.insights for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Editors can delete insights" on public.insights;
+create policy "Editors can delete insights"
+  on public.insights for delete
+  using (public.has_project_role(project_id, 'editor'));
+
+drop policy if exists "Owners can read their guide versions" on public.interview_guide_versions;
+drop policy if exists "Owners can create guide versions" on public.interview_guide_versions;
+
+drop policy if exists "Members can read guide versions" on public.interview_guide_versions;
+create policy "Members can read guide versions"
+  on public.interview_guide_versions for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Editors can create guide versions" on public.interview_guide_versions;
+create policy "Editors can create guide versions"
+  on public.interview_guide_versions for insert
+  with check (public.has_project_role(project_id, 'editor'));
+
+drop policy if exists "Owners can read their link opens" on public.interview_link_opens;
+drop policy if exists "Members can read link opens" on public.interview_link_opens;
+create policy "Members can read link opens"
+  on public.interview_link_opens for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Users can read their subscription" on public.subscriptions;
+drop policy if exists "Members can read their workspace's subscription" on public.subscriptions;
+create policy "Members can read their workspace's subscription"
+  on public.subscriptions for select
+  using (public.has_workspace_role(workspace_id, 'viewer'));
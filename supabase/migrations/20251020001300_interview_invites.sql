@@ -0,0 +1,138 @@
+-- Per-respondent interview invites. Each invite carries its own link token
+-- and optional respondent details, so interviews can be attributed to real
+-- customers. Projects can also be made invite-only, which closes the shared
+-- public link.
+
+create table if not exists public.interview_invites (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- Sent in the interview link as ?invite=, so it must not be guessable
+  token text not null unique default replace(gen_random_uuid()::text, '-', ''),
+  name text,
+  email text,
+  segment text,
+  expires_at timestamptz,
+  single_use boolean not null default true,
+  -- Revoked rather than deleted so past interviews keep their attribution
+  revoked_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists interview_invites_project_id_idx on public.interview_invites (project_id, created_at);
+
+alter table public.interviews
+  add column if not exists invite_id uuid references public.interview_invites (id) on delete set null;
+
+create index if not exists interviews_invite_id_idx on public.interviews (invite_id) where invite_id is not null;
+
+alter table public.projects
+  add column if not exists invite_only boolean not null default false;
+
+-- Whether an invite token (or no token at all) may start an interview for a
+-- project. Callable by anonymous respondents; a null reason means the invite
+-- is usable. The invite id is returned so the session can be attributed.
+create or replace function public.check_interview_invite(target_project_id uuid, invite_token text default null)
+returns table (invite_id uuid, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  invite record;
+begin
+  if invite_token is null then
+    return query
+      select null::uuid, case when p.invite_only then 'invite_required' end
+      from public.projects p
+      where p.id = target_project_id;
+    return;
+  end if;
+
+  select i.id, i.expires_at, i.single_use, i.revoked_at
+    into invite
+    from public.interview_invites i
+    where i.token = invite_token and i.project_id = target_project_id;
+
+  if not found or invite.revoked_at is not null then
+    return query select null::uuid, 'invite_invalid';
+    return;
+  end if;
+
+  if invite.expires_at is not null and invite.expires_at <= now() then
+    return query select invite.id, 'invite_expired';
+    return;
+  end if;
+
+  if invite.single_use and exists (select 1 from public.interviews where interviews.invite_id = invite.id) then
+    return query select invite.id, 'invite_used';
+    return;
+  end if;
+
+  return query select invite.id, null::text;
+end;
+$$;
+
+grant execute on function public.check_interview_invite(uuid, text) to anon, authenticated;
+
+-- Refuses sessions without a usable invite, after the project-level
+-- availability check. Locking the invite row keeps two tabs from both using
+-- a single-use invite.
+create or replace function public.enforce_interview_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite_token text;
+  rejection text;
+begin
+  if new.invite_id is not null then
+    select token into invite_token
+      from public.interview_invites
+      where id = new.invite_id
+      for update;
+    if not found then
+      raise exception 'Invite not found'
+        using errcode = 'check_violation', hint = 'invite_invalid';
+    end if;
+  end if;
+
+  select reason into rejection from public.check_interview_invite(new.project_id, invite_token);
+  if rejection is not null then
+    raise exception 'Interview invite cannot be used'
+      using errcode = 'check_violation', hint = rejection;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_enforce_invite on public.interviews;
+create trigger interviews_enforce_invite
+  before insert on public.interviews
+  for each row execute function public.enforce_interview_invite();
+
+alter table public.interview_invites enable row level security;
+
+drop policy if exists "Members can read interview invites" on public.interview_invites;
+create policy "Members can read interview invites"
+  on public.interview_invites for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Editors can create interview invites" on public.interview_invites;
+create policy "Editors can create interview invites"
+  on public.interview_invites for insert
+  with check (public.has_project_role(project_id, 'editor') and created_by = auth.uid());
+
+drop policy if exists "Editors can update interview invites" on public.interview_invites;
+create policy "Editors can update interview invites"
+  on public.interview_invites for update
+  using (public.has_project_role(project_id, 'editor'))
+  with check (public.has_project_role(project_id, 'editor'));
+
+drop policy if exists "Editors can delete interview invites" on public.interview_invites;
+create policy "Editors can delete interview invites"
+  on public.interview_invites for delete
+  using (public.has_project_role(project_id, 'editor'));
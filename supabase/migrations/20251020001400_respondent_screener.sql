@@ -0,0 +1,118 @@
+-- Respondent screener asked before an interview starts. Projects define the
+-- questions and qualify rules (see supabase/functions/_shared/screener.ts);
+-- interviews keep the answers for segmentation. Respondents who don't
+-- qualify are recorded as screened out and never reach the interviewer, so
+-- they don't count towards the response cap or the plan quota.
+
+alter table public.projects
+  add column if not exists screener jsonb;
+
+alter table public.projects
+  drop constraint if exists projects_screener_check;
+alter table public.projects
+  add constraint projects_screener_check
+  check (screener is null or jsonb_typeof(screener -> 'questions') = 'array');
+
+alter table public.interviews
+  add column if not exists screener_answers jsonb;
+
+alter table public.interviews
+  drop constraint if exists interviews_status_check;
+alter table public.interviews
+  add constraint interviews_status_check check (status in ('started', 'completed', 'abandoned', 'screened_out'));
+
+-- Mirrors evaluateScreener: null while any answer is missing or malformed,
+-- otherwise whether every answer qualifies.
+create or replace function public.screener_qualifies(screener jsonb, answers jsonb)
+returns boolean
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  question jsonb;
+  answer jsonb;
+  qualified boolean := true;
+begin
+  for question in
+    select value from jsonb_array_elements(coalesce(screener -> 'questions', '[]'::jsonb))
+  loop
+    answer := answers -> (question ->> 'id');
+
+    case question ->> 'type'
+      when 'multiple_choice' then
+        if jsonb_typeof(answer) is distinct from 'string'
+          or not coalesce(question -> 'options', '[]'::jsonb) ? (answer #>> '{}') then
+          return null;
+        end if;
+        if jsonb_array_length(coalesce(question -> 'qualifyingOptions', '[]'::jsonb)) > 0
+          and not (question -> 'qualifyingOptions') ? (answer #>> '{}') then
+          qualified := false;
+        end if;
+      when 'numeric' then
+        if jsonb_typeof(answer) is distinct from 'number' then
+          return null;
+        end if;
+        if (jsonb_typeof(question -> 'min') = 'number' and (answer #>> '{}')::numeric < (question ->> 'min')::numeric)
+          or (jsonb_typeof(question -> 'max') = 'number' and (answer #>> '{}')::numeric > (question ->> 'max')::numeric) then
+          qualified := false;
+        end if;
+      when 'yes_no' then
+        if jsonb_typeof(answer) is distinct from 'boolean' then
+          return null;
+        end if;
+        if jsonb_typeof(question -> 'qualifyingAnswer') = 'boolean' and answer <> question -> 'qualifyingAnswer' then
+          qualified := false;
+        end if;
+      else
+        return null;
+    end case;
+  end loop;
+
+  return qualified;
+end;
+$$;
+
+-- Projects with a screener only accept complete answers, and only qualifying
+-- answers may start an interview; others are stored as screened out.
+create or replace function public.enforce_interview_screener()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  project_screener jsonb;
+  qualified boolean;
+begin
+  select screener into project_screener from public.projects where id = new.project_id;
+  if jsonb_array_length(coalesce(project_screener -> 'questions', '[]'::jsonb)) = 0 then
+    return new;
+  end if;
+
+  qualified := public.screener_qualifies(project_screener, coalesce(new.screener_answers, '{}'::jsonb));
+  if qualified is null then
+    raise exception 'Screener answers are incomplete'
+      using errcode = 'check_violation', hint = 'screener_incomplete';
+  end if;
+  if new.status = 'started' and not qualified then
+    raise exception 'Respondent does not qualify for this interview'
+      using errcode = 'check_violation', hint = 'screened_out';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_enforce_screener on public.interviews;
+create trigger interviews_enforce_screener
+  before insert on public.interviews
+  for each row execute function public.enforce_interview_screener();
+
+-- Respondents may also record a screened-out session.
+drop policy if exists "Anyone can start an interview" on public.interviews;
+create policy "Anyone can start an interview"
+  on public.interviews for insert
+  with check (
+    status in ('started', 'screened_out')
+    and exists (select 1 from public.projects p where p.id = project_id and p.user_id = interviews.user_id)
+  );
@@ -0,0 +1,115 @@
+-- Consent and privacy notice respondents must accept before an interview
+-- starts. Notices are immutable versions, like interview guides, so every
+-- interview records exactly which wording was accepted and when.
+
+create table if not exists public.consent_versions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  version integer not null,
+  -- { text, privacyPolicyUrl, checkboxes: [{ id, label }] }, see
+  -- supabase/functions/_shared/consent.ts
+  notice jsonb not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (project_id, version)
+);
+
+-- A null current version means the project has no consent step.
+alter table public.projects
+  add column if not exists current_consent_version_id uuid references public.consent_versions (id) on delete set null;
+
+alter table public.interviews
+  add column if not exists consent_version_id uuid references public.consent_versions (id),
+  add column if not exists consent_accepted_at timestamptz;
+
+create index if not exists interviews_consent_version_id_idx on public.interviews (consent_version_id) where consent_version_id is not null;
+
+-- Saves a notice as the project's next consent version and makes it current.
+create or replace function public.publish_consent_version(target_project_id uuid, new_notice jsonb)
+returns public.consent_versions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  next_version integer;
+  created public.consent_versions;
+begin
+  perform 1 from public.projects where id = target_project_id for update;
+  if not found then
+    raise exception 'Project % not found', target_project_id;
+  end if;
+
+  select coalesce(max(version), 0) + 1 into next_version
+    from public.consent_versions
+    where project_id = target_project_id;
+
+  insert into public.consent_versions (project_id, version, notice, created_by)
+    values (target_project_id, next_version, new_notice, auth.uid())
+    returning * into created;
+
+  update public.projects
+    set current_consent_version_id = created.id,
+        updated_at = now()
+    where id = target_project_id;
+
+  return created;
+end;
+$$;
+
+-- Projects with a consent step only accept sessions that accepted one of
+-- their notices. The acceptance time is taken from the database clock rather
+-- than the respondent's browser.
+create or replace function public.enforce_interview_consent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  required_version uuid;
+begin
+  if new.consent_version_id is not null then
+    if not exists (
+      select 1 from public.consent_versions
+      where id = new.consent_version_id and project_id = new.project_id
+    ) then
+      raise exception 'Consent notice does not belong to this project'
+        using errcode = 'check_violation', hint = 'consent_required';
+    end if;
+    new.consent_accepted_at := now();
+    return new;
+  end if;
+
+  select current_consent_version_id into required_version from public.projects where id = new.project_id;
+  if required_version is not null then
+    raise exception 'Consent is required to start this interview'
+      using errcode = 'check_violation', hint = 'consent_required';
+  end if;
+  new.consent_accepted_at := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_enforce_consent on public.interviews;
+create trigger interviews_enforce_consent
+  before insert on public.interviews
+  for each row execute function public.enforce_interview_consent();
+
+alter table public.consent_versions enable row level security;
+
+-- Respondents are anonymous and need to read the notice they're asked to accept.
+drop policy if exists "Anyone can read current consent notices" on public.consent_versions;
+create policy "Anyone can read current consent notices"
+  on public.consent_versions for select
+  using (exists (select 1 from public.projects p where p.current_consent_version_id = consent_versions.id));
+
+drop policy if exists "Members can read consent versions" on public.consent_versions;
+create policy "Members can read consent versions"
+  on public.consent_versions for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+drop policy if exists "Editors can create consent versions" on public.consent_versions;
+create policy "Editors can create consent versions"
+  on public.consent_versions for insert
+  with check (public.has_project_role(project_id, 'editor'));
@@ -0,0 +1,68 @@
+-- PII redaction for respondent messages. ai-interviewer stores the redacted
+-- text in conversations and, when the project's retention allows it, keeps the
+-- original in conversation_originals where only workspace owners can read it.
+
+-- Shape: { categories, customTerms, originalsRetentionDays }, see
+-- supabase/functions/_shared/redaction.ts
+alter table public.projects
+  add column if not exists redaction_settings jsonb not null
+    default '{"categories": ["email", "phone", "payment_card"], "customTerms": [], "originalsRetentionDays": 30}'::jsonb;
+
+-- What was removed from each message.
+alter table public.conversations
+  add column if not exists redactions text[] not null default '{}';
+
+alter table public.conversations
+  drop constraint if exists conversations_redactions_check;
+
+alter table public.conversations
+  add constraint conversations_redactions_check
+  check (redactions <@ array['email', 'phone', 'payment_card', 'name', 'custom_term']::text[]);
+
+create table if not exists public.conversation_originals (
+  conversation_id bigint primary key references public.conversations (id) on delete cascade,
+  content text not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversation_originals_expires_at_idx on public.conversation_originals (expires_at);
+
+-- Deletes originals past their project's retention period.
+create or replace function public.purge_expired_conversation_originals()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  delete from public.conversation_originals where expires_at <= now();
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
+
+revoke execute on function public.purge_expired_conversation_originals() from public, anon, authenticated;
+
+select cron.schedule(
+  'purge-expired-conversation-originals',
+  '17 * * * *',
+  $$select public.purge_expired_conversation_originals()$$
+);
+
+-- Originals are written by ai-interviewer with the service role only.
+alter table public.conversation_originals enable row level security;
+
+drop policy if exists "Owners can read unexpired originals" on public.conversation_originals;
+create policy "Owners can read unexpired originals"
+  on public.conversation_originals for select
+  using (
+    expires_at > now()
+    and exists (
+      select 1 from public.conversations c
+      join public.interviews i on i.id = c.interview_id
+      where c.id = conversation_id and public.has_project_role(i.project_id, 'owner')
+    )
+  );
@@ -0,0 +1,107 @@
+-- One response quota rule for the database and the app. It mirrors
+-- getEntitlements in supabase/functions/_shared/entitlements.ts: a
+-- subscription only counts while it is active, trialing or past due. Every
+-- other workspace, including one whose subscription was canceled, gets the
+-- free allowance of FREE_RESPONSE_LIMIT completed responses per calendar month.
+
+create index if not exists interviews_usage_recorded_at_idx on public.interviews (usage_recorded_at)
+  where usage_recorded_at is not null;
+
+create or replace function public.workspace_response_quota(target_workspace_id uuid)
+returns table (response_limit integer, responses_used integer, on_plan boolean)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  plan record;
+begin
+  select s.response_limit, coalesce(s.responses_used, 0) as responses_used
+    into plan
+    from public.subscriptions s
+    where s.workspace_id = target_workspace_id
+      and s.plan_type in ('starter', 'pro')
+      and s.status in ('active', 'trialing', 'past_due');
+
+  if found then
+    return query select plan.response_limit, plan.responses_used, true;
+    return;
+  end if;
+
+  -- FREE_RESPONSE_LIMIT in _shared/entitlements.ts
+  return query
+    select 10, count(*)::integer, false
+      from public.interviews i
+      join public.projects p on p.id = i.project_id
+      where p.workspace_id = target_workspace_id
+        and i.usage_recorded_at >= date_trunc('month', now());
+end;
+$$;
+
+revoke execute on function public.workspace_response_quota(uuid) from public, anon, authenticated;
+
+-- The dashboard's view of the same quota, for workspace members only.
+create or replace function public.get_workspace_quota(target_workspace_id uuid)
+returns table (response_limit integer, responses_used integer, on_plan boolean)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_role(target_workspace_id, 'viewer') then
+    raise exception 'Not a member of this workspace' using errcode = 'insufficient_privilege';
+  end if;
+  return query select * from public.workspace_response_quota(target_workspace_id);
+end;
+$$;
+
+revoke execute on function public.get_workspace_quota(uuid) from public, anon;
+grant execute on function public.get_workspace_quota(uuid) to authenticated;
+
+create or replace function public.get_interview_availability(target_project_id uuid)
+returns table (accepting boolean, reason text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  project record;
+  completed_count integer;
+  quota record;
+begin
+  select id, workspace_id, status, coalesce(max_responses, 100) as cap
+    into project
+    from public.projects
+    where id = target_project_id;
+
+  if not found then
+    return query select false, 'not_found';
+    return;
+  end if;
+
+  if project.status <> 'active' then
+    return query select false, project.status;
+    return;
+  end if;
+
+  select count(*) into completed_count
+    from public.interviews
+    where project_id = target_project_id and status = 'completed';
+
+  if completed_count >= project.cap then
+    return query select false, 'full';
+    return;
+  end if;
+
+  select * into quota from public.workspace_response_quota(project.workspace_id);
+  if quota.response_limit is not null and quota.responses_used >= quota.response_limit then
+    return query select false, 'quota';
+    return;
+  end if;
+
+  return query select true, null::text;
+end;
+$$;
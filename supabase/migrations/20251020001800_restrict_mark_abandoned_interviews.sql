@@ -0,0 +1,3 @@
+-- mark_abandoned_interviews is security definer and was executable by every
+-- role. Only pg_cron and the service role may run it.
+revoke execute on function public.mark_abandoned_interviews(interval) from public, anon, authenticated;
@@ -0,0 +1,4 @@
+-- Both call the edge function with the service role key, so only the triggers,
+-- pg_cron and the service role may run them.
+revoke execute on function public.invoke_insight_processing(uuid) from public, anon, authenticated;
+revoke execute on function public.retry_stalled_insight_jobs(integer) from public, anon, authenticated;
@@ -0,0 +1,46 @@
+-- Rejects guides whose questions allow more follow-ups than the editor offers.
+create or replace function public.publish_guide_version(target_project_id uuid, new_guide jsonb)
+returns public.interview_guide_versions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  next_version integer;
+  created public.interview_guide_versions;
+begin
+  perform 1 from public.projects where id = target_project_id for update;
+  if not found then
+    raise exception 'Project % not found', target_project_id;
+  end if;
+
+  -- MAX_PROBES_LIMIT in supabase/functions/_shared/interviewGuide.ts
+  if exists (
+    select 1 from jsonb_array_elements(coalesce(new_guide -> 'questions', '[]'::jsonb)) as q
+    where q ? 'maxProbes'
+      and case jsonb_typeof(q -> 'maxProbes')
+        when 'number' then (q ->> 'maxProbes')::numeric not in (0, 1, 2, 3, 4, 5)
+        else true
+      end
+  ) then
+    raise exception 'Max follow-ups must be a whole number from 0 to 5'
+      using errcode = 'check_violation';
+  end if;
+
+  select coalesce(max(version), 0) + 1 into next_version
+    from public.interview_guide_versions
+    where project_id = target_project_id;
+
+  insert into public.interview_guide_versions (project_id, version, guide, created_by)
+    values (target_project_id, next_version, new_guide, auth.uid())
+    returning * into created;
+
+  update public.projects
+    set interview_guide = new_guide,
+        current_guide_version_id = created.id,
+        updated_at = now()
+    where id = target_project_id;
+
+  return created;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Respondents insert their own interview rows, but only the columns the
+-- interview page sends are theirs to choose. Everything the server maintains
+-- is reset here, so a respondent can't, for example, pre-set usage_recorded_at
+-- to skip metering or pin the session to another project's guide version.
+create or replace function public.reset_interview_server_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  new.started_at := now();
+  new.created_at := now();
+  new.last_activity_at := now();
+  new.completed_at := null;
+  new.conclusion_reason := null;
+  new.guide_progress := null;
+  new.usage_recorded_at := null;
+  new.processing_status := null;
+  new.processing_attempts := 0;
+  new.processing_started_at := null;
+  new.processing_error := null;
+  new.processed_at := null;
+  select current_guide_version_id into new.guide_version_id from public.projects where id = new.project_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists interviews_reset_server_columns on public.interviews;
+create trigger interviews_reset_server_columns
+  before insert on public.interviews
+  for each row execute function public.reset_interview_server_columns();
@@ -0,0 +1,76 @@
+-- Projects used to be readable by anyone so the interview page could load
+-- them, which also handed out settings meant for the workspace only, such as
+-- the customer and employee names listed in redaction_settings.customTerms.
+-- Members now read projects directly; respondents get just the fields the
+-- interview page needs from get_interview_project.
+
+drop policy if exists "Anyone can read projects" on public.projects;
+drop policy if exists "Members can read projects" on public.projects;
+create policy "Members can read projects"
+  on public.projects for select
+  using (public.has_workspace_role(workspace_id, 'viewer'));
+
+create or replace function public.get_interview_project(target_project_id uuid)
+returns table (
+  id uuid,
+  title text,
+  product_idea_prompt text,
+  user_id uuid,
+  interview_guide jsonb,
+  current_guide_version_id uuid,
+  current_consent_version_id uuid,
+  screener jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.title, p.product_idea_prompt, p.user_id, p.interview_guide,
+         p.current_guide_version_id, p.current_consent_version_id, p.screener
+    from public.projects p
+    where p.id = target_project_id;
+$$;
+
+revoke execute on function public.get_interview_project(uuid) from public;
+grant execute on function public.get_interview_project(uuid) to anon, authenticated;
+
+-- The respondent policies below checked the project by reading it, which
+-- respondents no longer can; these answer the same questions for them.
+create or replace function public.project_creator(target_project_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.user_id from public.projects p where p.id = target_project_id;
+$$;
+
+create or replace function public.is_current_consent_version(target_version_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.projects p where p.current_consent_version_id = target_version_id);
+$$;
+
+drop policy if exists "Anyone can start an interview" on public.interviews;
+create policy "Anyone can start an interview"
+  on public.interviews for insert
+  with check (
+    status in ('started', 'screened_out')
+    and user_id = public.project_creator(project_id)
+  );
+
+drop policy if exists "Anyone can record a link open" on public.interview_link_opens;
+create policy "Anyone can record a link open"
+  on public.interview_link_opens for insert
+  with check (public.project_creator(project_id) is not null);
+
+drop policy if exists "Anyone can read current consent notices" on public.consent_versions;
+create policy "Anyone can read current consent notices"
+  on public.consent_versions for select
+  using (public.is_current_consent_version(id));
@@ -0,0 +1,47 @@
+-- get_interview_project handed respondents the whole screener, qualify rules
+-- included, so anyone could read which answers get them in. Respondents now
+-- only see each question's text and choices; enforce_interview_screener still
+-- decides who qualifies when the interview is inserted.
+
+create or replace function public.get_interview_project(target_project_id uuid)
+returns table (
+  id uuid,
+  title text,
+  product_idea_prompt text,
+  user_id uuid,
+  interview_guide jsonb,
+  current_guide_version_id uuid,
+  current_consent_version_id uuid,
+  screener jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.title, p.product_idea_prompt, p.user_id, p.interview_guide,
+         p.current_guide_version_id, p.current_consent_version_id,
+         case when p.screener is null then null else jsonb_build_object(
+           'questions',
+           coalesce((
+             select jsonb_agg(
+                      jsonb_strip_nulls(jsonb_build_object(
+                        'id', q.question -> 'id',
+                        'text', q.question -> 'text',
+                        'type', q.question -> 'type',
+                        'options', q.question -> 'options'
+                      ))
+                      order by q.position
+                    )
+               from jsonb_array_elements(
+                      case when jsonb_typeof(p.screener -> 'questions') = 'array'
+                        then p.screener -> 'questions' else '[]'::jsonb end
+                    ) with ordinality as q(question, position)
+           ), '[]'::jsonb)
+         ) end
+    from public.projects p
+    where p.id = target_project_id;
+$$;
+
+revoke execute on function public.get_interview_project(uuid) from public;
+grant execute on function public.get_interview_project(uuid) to anon, authenticated;